@@ -0,0 +1,176 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * List of known balancing modes.
+ */
+export const BALANCING_MODES = [
+    'mirror',
+    'round-robin',
+    'random',
+    'least-connections',
+    'failover',
+];
+
+/**
+ * Selects the target(s) for new connections.
+ */
+export class TargetBalancer {
+    private readonly _CONNECTIONS: number[] = [];
+    private readonly _IS_AVAILABLE: (index: number) => boolean;
+    private readonly _MODE: string;
+    private _nextIndex = 0;
+    private readonly _TARGET_COUNT: number;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} mode The balancing mode.
+     * @param {number} targetCount The number of targets.
+     * @param {Function} [isAvailable] The custom function, which checks if a target can be used or not.
+     */
+    constructor(mode: string, targetCount: number,
+                isAvailable?: (index: number) => boolean) {
+        mode = vsp_helpers.normalizeString(mode);
+        if ('' === mode) {
+            mode = 'mirror';
+        }
+
+        if (BALANCING_MODES.indexOf(mode) < 0) {
+            throw new Error(`Balancing mode '${mode}' is not supported!`);
+        }
+
+        this._IS_AVAILABLE = isAvailable;
+        this._MODE = mode;
+        this._TARGET_COUNT = targetCount;
+
+        for (let i = 0; i < targetCount; i++) {
+            this._CONNECTIONS.push(0);
+        }
+    }
+
+    /**
+     * Registers a new connection to a target.
+     * 
+     * @param {number} index The zero-based index of the target.
+     */
+    public acquire(index: number) {
+        if (index >= 0 && index < this._CONNECTIONS.length) {
+            ++this._CONNECTIONS[index];
+        }
+    }
+
+    /**
+     * Returns the number of active connections of a target.
+     * 
+     * @param {number} index The zero-based index of the target.
+     * 
+     * @return {number} The number of connections.
+     */
+    public getConnectionCount(index: number): number {
+        return this._CONNECTIONS[index] || 0;
+    }
+
+    /**
+     * Gets if new connections should fail over to the next target or not.
+     */
+    public get isFailover() {
+        return 'failover' === this.mode;
+    }
+
+    /**
+     * Gets if chunks are send to all targets or not.
+     */
+    public get isMirror() {
+        return 'mirror' === this.mode;
+    }
+
+    /**
+     * Gets the balancing mode.
+     */
+    public get mode(): string {
+        return this._MODE;
+    }
+
+    /**
+     * Unregisters a connection to a target.
+     * 
+     * @param {number} index The zero-based index of the target.
+     */
+    public release(index: number) {
+        if (this._CONNECTIONS[index] > 0) {
+            --this._CONNECTIONS[index];
+        }
+    }
+
+    /**
+     * Selects the target(s) for a new connection.
+     * Unavailable targets are skipped, as long as there is at least one available target.
+     * 
+     * @return {number[]} The zero-based indexes of the targets. In 'failover' mode, this is the ordered list of candidates.
+     */
+    public select(): number[] {
+        const ALL_TARGETS: number[] = [];
+        for (let i = 0; i < this._TARGET_COUNT; i++) {
+            ALL_TARGETS.push(i);
+        }
+
+        let candidates = ALL_TARGETS;
+        if (this._IS_AVAILABLE) {
+            candidates = ALL_TARGETS.filter(i => this._IS_AVAILABLE(i));
+            if (candidates.length < 1) {
+                candidates = ALL_TARGETS;
+            }
+        }
+
+        if (candidates.length < 1) {
+            return candidates;
+        }
+
+        switch (this.mode) {
+            case 'round-robin':
+                {
+                    const INDEX = this._nextIndex % candidates.length;
+                    this._nextIndex = INDEX + 1;
+
+                    return [ candidates[INDEX] ];
+                }
+
+            case 'random':
+                return [ candidates[ Math.floor(Math.random() * candidates.length) ] ];
+
+            case 'least-connections':
+                return [ candidates.sort((x, y) => {
+                    return vsp_helpers.compareValues(this.getConnectionCount(x), this.getConnectionCount(y)) ||
+                           vsp_helpers.compareValues(x, y);
+                })[0] ];
+        }
+
+        // 'mirror' or 'failover'
+        return candidates;
+    }
+}
@@ -0,0 +1,512 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+
+import * as FS from 'fs';
+import * as OS from 'os';
+import * as Path from 'path';
+import * as UUID from 'uuid';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * The action for a chunk, which has been paused by a breakpoint.
+ */
+export interface BreakpointDecision {
+    /**
+     * The action, like 'drop', 'forward' or 'resume'.
+     */
+    readonly action: string;
+    /**
+     * The (edited) chunk to forward.
+     */
+    readonly chunk?: Buffer;
+}
+
+/**
+ * A function, which asks for the action of a chunk, that has been paused by a breakpoint.
+ * 
+ * @param {BreakpointHit} hit The information about the hit.
+ * 
+ * @return {Promise<BreakpointDecision>} The promise with the decision.
+ */
+export type BreakpointHandler = (hit: BreakpointHit) => Promise<BreakpointDecision>;
+
+/**
+ * Information about a breakpoint hit.
+ */
+export interface BreakpointHit {
+    /**
+     * The chunk.
+     */
+    readonly chunk: Buffer;
+    /**
+     * The direction.
+     */
+    readonly destination: vsp_contracts.ProxyDestination;
+    /**
+     * The matching rule.
+     */
+    readonly rule: BreakpointRule;
+    /**
+     * The session.
+     */
+    readonly session: BreakpointSession;
+}
+
+/**
+ * A normalized breakpoint.
+ */
+export interface BreakpointRule {
+    /**
+     * The directions.
+     */
+    readonly destinations: vsp_contracts.ProxyDestination[];
+    /**
+     * The (display) name.
+     */
+    readonly name: string;
+    /**
+     * The data, a chunk must contain.
+     */
+    readonly pattern: Buffer | false;
+    /**
+     * The regular expression, a chunk must match.
+     */
+    readonly regex: RegExp | false;
+    /**
+     * The client address or session ID.
+     */
+    readonly session: string;
+    /**
+     * The view for editing, like 'hex' or 'text', or an empty string to detect it.
+     */
+    readonly view: string;
+}
+
+/**
+ * A session, a breakpoint can be hit in.
+ */
+export interface BreakpointSession {
+    /**
+     * The address of the client.
+     */
+    readonly client: vsp_contracts.SocketAddress;
+    /**
+     * The ID.
+     */
+    readonly id: string;
+}
+
+
+/**
+ * Sends the chunks of one direction of a session in the order they have been received.
+ * The source is paused, while a breakpoint has been hit or asynchronous actions are running.
+ */
+export class InterceptStream {
+    private readonly _DESTINATION: vsp_contracts.ProxyDestination;
+    private readonly _HANDLER: BreakpointHandler;
+    private _isResumed = false;
+    private readonly _ON_PAUSE: (paused: boolean) => void;
+    private _pending = 0;
+    private _queue: Promise<any> = Promise.resolve();
+    private readonly _RULES: BreakpointRule[];
+    private readonly _SESSION: BreakpointSession;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {BreakpointRule[]} rules The breakpoints.
+     * @param {vsp_contracts.ProxyDestination} destination The direction.
+     * @param {BreakpointSession} session The session.
+     * @param {BreakpointHandler} handler The function, which asks for the action of a paused chunk.
+     * @param {Function} [onPause] The optional function, which pauses or resumes the underlying source.
+     */
+    constructor(rules: BreakpointRule[],
+                destination: vsp_contracts.ProxyDestination, session: BreakpointSession,
+                handler: BreakpointHandler, onPause?: (paused: boolean) => void) {
+        this._RULES = rules || [];
+        this._DESTINATION = destination;
+        this._SESSION = session;
+        this._HANDLER = handler;
+        this._ON_PAUSE = onPause;
+    }
+
+    /**
+     * Enqueues a chunk.
+     * 
+     * @param {Buffer} chunk The chunk.
+     * @param {Function} action The action, which sends the (edited) chunk. It can return a promise.
+     *                          The second argument is the chunk as it has been received.
+     */
+    public enqueue(chunk: Buffer, action: (chunk: Buffer, originalChunk: Buffer) => any) {
+        const ME = this;
+
+        if (ME._pending < 1 && !ME.findRule(chunk)) {
+            const RESULT = action(chunk, chunk);
+            if (vsp_helpers.isPromiseLike(RESULT)) {
+                // following chunks have to wait
+                ME.addPending(() => RESULT);
+            }
+
+            return;
+        }
+
+        ME.addPending(async () => {
+            let newChunk = chunk;
+
+            const RULE = ME.findRule(chunk);
+            if (RULE) {
+                const DECISION = await ME._HANDLER({
+                    chunk: chunk,
+                    destination: ME._DESTINATION,
+                    rule: RULE,
+                    session: ME._SESSION,
+                });
+
+                switch (vsp_helpers.normalizeString(DECISION ? DECISION.action : undefined)) {
+                    case 'drop':
+                        newChunk = null;
+                        break;
+
+                    case 'resume':
+                        ME._isResumed = true;  // do not pause again
+                        break;
+
+                    default:
+                        newChunk = (DECISION && DECISION.chunk) || chunk;
+                        break;
+                }
+            }
+
+            if (newChunk) {
+                await Promise.resolve(
+                    action(newChunk, chunk)
+                );
+            }
+        });
+    }
+
+    /**
+     * Returns the first breakpoint, a chunk matches.
+     * 
+     * @param {Buffer} chunk The chunk.
+     * 
+     * @return {BreakpointRule|false} The breakpoint or (false) if not found.
+     */
+    protected findRule(chunk: Buffer): BreakpointRule | false {
+        if (this._isResumed || !chunk) {
+            return false;
+        }
+
+        for (const R of this._RULES) {
+            if (isMatching(R, chunk, this._DESTINATION, this._SESSION)) {
+                return R;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Invokes an action after all enqueued chunks have been handled.
+     * 
+     * @param {Function} action The action to invoke.
+     */
+    public whenDone(action: () => any) {
+        if (this._pending < 1) {
+            action();
+            return;
+        }
+
+        this._queue = this._queue.then(() => {
+            return action();
+        }).catch((err) => {
+            console.trace('[Proxy] breakpoints.InterceptStream.whenDone(): ' +
+                          vsp_helpers.toStringSafe(err));
+        });
+    }
+
+    private addPending(task: () => any) {
+        const ME = this;
+
+        if (++ME._pending === 1) {
+            ME.setPaused(true);
+        }
+
+        ME._queue = ME._queue.then(() => {
+            return task();
+        }).catch((err) => {
+            console.trace('[Proxy] breakpoints.InterceptStream.addPending(): ' +
+                          vsp_helpers.toStringSafe(err));
+        }).then(() => {
+            if (--ME._pending < 1) {
+                ME.setPaused(false);
+            }
+        });
+    }
+
+    private setPaused(paused: boolean) {
+        if (this._ON_PAUSE) {
+            try {
+                this._ON_PAUSE(paused);
+            }
+            catch (e) {
+                console.trace('[Proxy] breakpoints.InterceptStream.setPaused(): ' +
+                              vsp_helpers.toStringSafe(e));
+            }
+        }
+    }
+}
+
+
+async function closeDocument(doc: vscode.TextDocument) {
+    if (doc.isClosed) {
+        return;
+    }
+
+    if (doc.isDirty) {
+        await doc.save();  // no 'save changes' dialog
+    }
+
+    await vscode.window.showTextDocument(doc);
+    await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+}
+
+function fromHexView(str: string): Buffer {
+    const HEX = vsp_helpers.toStringSafe(str).replace(/\s/g, '');
+    if (!/^([0-9a-f]{2})*$/i.test(HEX)) {
+        throw new Error('Invalid hex data!');
+    }
+
+    return Buffer.from(HEX, 'hex');
+}
+
+/**
+ * Checks if a chunk matches a breakpoint.
+ * 
+ * @param {BreakpointRule} rule The breakpoint.
+ * @param {Buffer} chunk The chunk.
+ * @param {vsp_contracts.ProxyDestination} destination The direction.
+ * @param {BreakpointSession} session The session.
+ * 
+ * @return {boolean} Does match or not.
+ */
+export function isMatching(rule: BreakpointRule, chunk: Buffer,
+                           destination: vsp_contracts.ProxyDestination, session: BreakpointSession): boolean {
+    if (rule.destinations.indexOf(destination) < 0) {
+        return false;
+    }
+
+    if ('' !== rule.session) {
+        const CLIENT = session.client;
+
+        const IDS = [
+            vsp_helpers.normalizeString(session.id),
+            vsp_helpers.normalizeString(CLIENT.addr),
+            vsp_helpers.normalizeString(`${CLIENT.addr}:${CLIENT.port}`),
+        ];
+        if (IDS.indexOf(rule.session) < 0) {
+            return false;
+        }
+    }
+
+    if (rule.pattern && chunk.indexOf(rule.pattern) < 0) {
+        return false;
+    }
+
+    if (rule.regex) {
+        rule.regex.lastIndex = 0;
+
+        if (!rule.regex.test(chunk.toString('utf8'))) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function isText(chunk: Buffer) {
+    const STR = chunk.toString('utf8');
+
+    if (!Buffer.from(STR, 'utf8').equals(chunk)) {
+        return false;  // no valid UTF-8
+    }
+
+    if (/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/.test(STR)) {
+        return false;  // binary data
+    }
+
+    // an editor would normalize mixed line endings
+    const CRLF = /\r\n/.test(STR);
+    const LF = /(^|[^\r])\n/.test(STR);
+    const CR = /\r(?!\n)/.test(STR);
+
+    return [ CRLF, LF, CR ].filter(x => x).length < 2;
+}
+
+/**
+ * Opens a paused chunk in an editor and asks the user, what to do with it.
+ * 
+ * @param {BreakpointHit} hit The information about the hit.
+ * @param {string} proxyName The name of the proxy.
+ * @param {number} hexWidth The number of bytes per line in hex view.
+ * 
+ * @return {Promise<BreakpointDecision>} The promise with the decision.
+ */
+export async function showBreakpoint(hit: BreakpointHit, proxyName: string, hexWidth: number): Promise<BreakpointDecision> {
+    let view = hit.rule.view;
+    if ('' === view) {
+        view = isText(hit.chunk) ? 'text' : 'hex';
+    }
+
+    const FILE = Path.join(
+        OS.tmpdir(), `vscode-proxy-breakpoint-${UUID.v4()}.${'hex' === view ? 'hex' : 'txt'}`
+    );
+
+    await writeFile(FILE,
+                    'hex' === view ? toHexView(hit.chunk, hexWidth) : hit.chunk);
+    try {
+        const DOC = await vscode.workspace.openTextDocument(FILE);
+        await vscode.window.showTextDocument(DOC, {
+            preview: false,
+        });
+
+        let direction: string;
+        switch (hit.destination) {
+            case vsp_contracts.ProxyDestination.ProxyToTarget:
+                direction = 'client => target';
+                break;
+
+            case vsp_contracts.ProxyDestination.TargetToProxy:
+                direction = 'target => client';
+                break;
+        }
+
+        const CLIENT = hit.session.client;
+
+        const ACTION = await vscode.window.showInformationMessage(
+            `[Proxy] '${proxyName}': Breakpoint '${hit.rule.name}' has been hit (${direction}, '${CLIENT.addr}:${CLIENT.port}'). Edit the chunk and select what to do with it.`,
+            'Forward', 'Drop', 'Resume',
+        );
+
+        const TEXT = DOC.getText();
+
+        await closeDocument(DOC);
+
+        switch (vsp_helpers.normalizeString(ACTION)) {
+            case 'drop':
+                return {
+                    action: 'drop',
+                };
+
+            case 'resume':
+                return {
+                    action: 'resume',
+                };
+        }
+
+        let chunk: Buffer;
+        try {
+            chunk = 'hex' === view ? fromHexView(TEXT) : Buffer.from(TEXT, 'utf8');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[Proxy] '${proxyName}': Could not forward edited chunk, so the original one has been forwarded: ${vsp_helpers.toStringSafe(e)}`).then(() => {
+            }, (err) => {
+                console.trace('[Proxy] breakpoints.showBreakpoint(): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+
+            chunk = hit.chunk;
+        }
+
+        return {
+            action: 'forward',
+            chunk: chunk,
+        };
+    }
+    finally {
+        FS.unlink(FILE, (err) => {
+            if (err) {
+                console.trace('[Proxy] breakpoints.showBreakpoint(): ' +
+                              vsp_helpers.toStringSafe(err));
+            }
+        });
+    }
+}
+
+/**
+ * Normalizes breakpoint settings.
+ * 
+ * @param {vsp_contracts.BreakpointSettings|vsp_contracts.BreakpointSettings[]} settings The settings.
+ * 
+ * @return {BreakpointRule[]} The enabled breakpoints.
+ */
+export function toBreakpointRules(settings: vsp_contracts.BreakpointSettings | vsp_contracts.BreakpointSettings[]): BreakpointRule[] {
+    return vsp_helpers.asArray(settings).filter(s => {
+        return s && vsp_helpers.toBooleanSafe(s.enabled, true);
+    }).map((s, i) => {
+        let name = vsp_helpers.toStringSafe(s.name).trim();
+        if ('' === name) {
+            name = `#${i + 1}`;
+        }
+
+        const VIEW = vsp_helpers.normalizeString(s.view);
+        if ('' !== VIEW && 'hex' !== VIEW && 'text' !== VIEW) {
+            throw new Error(`Breakpoint view '${VIEW}' is not supported!`);
+        }
+
+        const REGEX = vsp_helpers.toStringSafe(s.regex);
+
+        const RULE: BreakpointRule = {
+            destinations: vsp_helpers.getDestinations(s.direction),
+            name: name,
+            pattern: vsp_helpers.isEmptyString(s.pattern) ? false : vsp_helpers.toBufferSafe(s.pattern, s.encoding),
+            regex: '' === REGEX ? false : new RegExp(REGEX, vsp_helpers.toStringSafe(s.flags)),
+            session: vsp_helpers.normalizeString(s.session),
+            view: VIEW,
+        };
+
+        return RULE;
+    });
+}
+
+function toHexView(chunk: Buffer, hexWidth: number) {
+    const LINES: string[] = [];
+    for (let i = 0; i < chunk.length; i += hexWidth) {
+        LINES.push(
+            chunk.slice(i, i + hexWidth).toString('hex').replace(/(..)(?!$)/g, '$1 ')
+        );
+    }
+
+    return LINES.join(OS.EOL);
+}
+
+function writeFile(file: string, data: string | Buffer) {
+    return new Promise<void>((resolve, reject) => {
+        FS.writeFile(file, data, vsp_helpers.createSimpleCompletedAction(resolve, reject));
+    });
+}
@@ -45,6 +45,48 @@ export interface ActionQuickPickItem<TState = any> extends vscode.QuickPickItem
     readonly state?: TState;
 }
 
+/**
+ * Settings for a breakpoint, which pauses a connection for editing a chunk.
+ */
+export interface BreakpointSettings {
+    /**
+     * The direction of the chunks, like 'up', 'down' or 'both'. Default: 'both'
+     */
+    readonly direction?: string;
+    /**
+     * Is breakpoint enabled or not. Default: (true)
+     */
+    readonly enabled?: boolean;
+    /**
+     * The encoding of 'pattern', like 'utf8', 'hex' or 'base64'. Default: 'utf8'
+     */
+    readonly encoding?: string;
+    /**
+     * The flags for 'regex'.
+     */
+    readonly flags?: string;
+    /**
+     * A (display) name for the breakpoint.
+     */
+    readonly name?: string;
+    /**
+     * The data, a chunk must contain.
+     */
+    readonly pattern?: string;
+    /**
+     * The regular expression, a chunk (as UTF-8 string) must match.
+     */
+    readonly regex?: string;
+    /**
+     * The address of the client (like '127.0.0.1' or '127.0.0.1:54321') or the ID of the session.
+     */
+    readonly session?: string;
+    /**
+     * The view for editing a chunk, like 'hex' or 'text'. Default: 'text' for UTF-8 data, otherwise 'hex'
+     */
+    readonly view?: string;
+}
+
 /**
  * A module for handling a chunk.
  */
@@ -59,13 +101,15 @@ export interface ChunkHandlerModule {
  * Logic for handling a chunk.
  * 
  * @param {ChunkHandlerModuleExecutorArguments} args The arguments.
+ * 
+ * @return {any} The result. If a promise is returned, the chunk is send after it has been resolved.
  */
 export type ChunkHandlerModuleExecutor = (args: ChunkHandlerModuleExecutorArguments) => any;
 
 /**
  * Arguments for handling a chunk.
  */
-export interface ChunkHandlerModuleExecutorArguments extends ScriptArguments {
+export interface ChunkHandlerModuleExecutorArguments extends SessionScriptArguments {
     /**
      * The current (or new chunk) to send.
      */
@@ -76,6 +120,24 @@ export interface ChunkHandlerModuleExecutorArguments extends ScriptArguments {
     readonly destination: ProxyDestination;
 }
 
+/**
+ * Settings for a chunk handler of a chain.
+ */
+export interface ChunkHandlerSettings {
+    /**
+     * Additional options for the handler. Default: The value of 'chunkHandlerOptions' of the proxy.
+     */
+    readonly options?: any;
+    /**
+     * The path to the script that handles a chunk.
+     */
+    readonly script: string;
+    /**
+     * Initial state value for the handler. Default: The value of 'chunkHandlerState' of the proxy.
+     */
+    readonly state?: any;
+}
+
 /**
  * Extension settings.
  */
@@ -88,6 +150,14 @@ export interface Configuration extends vscode.WorkspaceConfiguration {
      * The width for binary data in hex view.
      */
     readonly hexWidth?: number;
+    /**
+     * Default maximum number of bytes of all chunks of a trace (0 = unlimited).
+     */
+    readonly maxTraceBytes?: number;
+    /**
+     * Default maximum number of entries of a trace (0 = unlimited).
+     */
+    readonly maxTraceEntries?: number;
     /**
      * Default value that indicates if traces should be opened in new tab after trace has been finished or not.
      */
@@ -100,12 +170,197 @@ export interface Configuration extends vscode.WorkspaceConfiguration {
      * One or more proxy entries.
      */
     readonly proxies?: { [port: string]: ProxyEntry; };
+    /**
+     * Default policy, if a limit of a trace has been reached.
+     */
+    readonly traceLimitPolicy?: string;
     /**
      * Default value for writing trace entries to output or not.
      */
     readonly writeToOutput?: boolean;
 }
 
+/**
+ * Settings for fault injection.
+ */
+export interface FaultInjectionSettings {
+    /**
+     * The probability (0 - 1) of corrupting a byte of a chunk.
+     */
+    readonly corrupt?: number;
+    /**
+     * The direction of the chunks, where faults should be injected, like 'up', 'down' or 'both'. Default: 'both'
+     */
+    readonly direction?: string;
+    /**
+     * Inject faults after the proxy has been started or not. Default: (true)
+     */
+    readonly enabled?: boolean;
+    /**
+     * The probability (0 - 1) of refusing a new connection / session.
+     */
+    readonly refuse?: number;
+    /**
+     * The probability (0 - 1) of resetting a connection / session instead of sending a chunk.
+     */
+    readonly reset?: number;
+    /**
+     * The probability (0 - 1) of stalling the direction of a connection / session forever.
+     */
+    readonly stall?: number;
+    /**
+     * The probability (0 - 1) of truncating a chunk.
+     */
+    readonly truncate?: number;
+}
+
+/**
+ * Settings for health checks of targets.
+ */
+export interface HealthCheckSettings {
+    /**
+     * The encoding of 'send' and 'expect', like 'utf8', 'hex' or 'base64'. Default: 'utf8'
+     */
+    readonly encoding?: string;
+    /**
+     * The data, which is expected in the answer of the target.
+     */
+    readonly expect?: string;
+    /**
+     * The number of successful checks in a row, before an unhealthy target is marked as healthy again. Default: 2
+     */
+    readonly healthyThreshold?: number;
+    /**
+     * The time in milliseconds between two checks. Default: 10000
+     */
+    readonly interval?: number;
+    /**
+     * The data to send to the target.
+     */
+    readonly send?: string;
+    /**
+     * The timeout in milliseconds for a single check. Default: 5000
+     */
+    readonly timeout?: number;
+    /**
+     * The number of failed checks in a row, before a target is marked as unhealthy. Default: 3
+     */
+    readonly unhealthyThreshold?: number;
+}
+
+/**
+ * Arguments for the 'onConnect' hook of a lifecycle handler.
+ */
+export interface LifecycleConnectArguments extends LifecycleHandlerModuleExecutorArguments {
+    /**
+     * Accept the connection / session or not. Default: (true)
+     */
+    accept: boolean;
+    /**
+     * All targets of the proxy (s. 'to').
+     */
+    readonly availableTargets: SocketAddress[];
+    /**
+     * The zero-based indexes of the targets (s. 'availableTargets'), which have been selected
+     * by the balancing mode. Can be changed to use other targets.
+     */
+    targets: number[];
+}
+
+/**
+ * A module, which is notified about the lifecycle of connections and (pseudo) sessions.
+ */
+export interface LifecycleHandlerModule {
+    /**
+     * Is invoked after a connection / session has been closed.
+     */
+    readonly onClose?: LifecycleHandlerModuleExecutor;
+    /**
+     * Is invoked when a new connection / session has been opened by a source / client.
+     */
+    readonly onConnect?: LifecycleHandlerModuleExecutor<LifecycleConnectArguments>;
+    /**
+     * Is invoked when a source / client has ended its connection or a (pseudo) session has been timed out.
+     */
+    readonly onEnd?: LifecycleHandlerModuleExecutor;
+    /**
+     * Is invoked when a connection to a target has been established.
+     */
+    readonly onTargetConnected?: LifecycleHandlerModuleExecutor<LifecycleTargetArguments>;
+    /**
+     * Is invoked when an error occurred in the connection to a target.
+     */
+    readonly onTargetError?: LifecycleHandlerModuleExecutor<LifecycleTargetErrorArguments>;
+}
+
+/**
+ * Executes a hook of a lifecycle handler.
+ * 
+ * @param {TArgs} args The arguments.
+ */
+export type LifecycleHandlerModuleExecutor<TArgs extends LifecycleHandlerModuleExecutorArguments = LifecycleHandlerModuleExecutorArguments> =
+    (args: TArgs) => any;
+
+/**
+ * Arguments for a hook of a lifecycle handler.
+ */
+export interface LifecycleHandlerModuleExecutorArguments extends SessionScriptArguments {
+    /**
+     * The protocol, like 'tcp' or 'udp'.
+     */
+    readonly protocol: string;
+    /**
+     * The address of the source / client.
+     */
+    readonly source: SocketAddress;
+}
+
+/**
+ * Arguments for the target hooks of a lifecycle handler.
+ */
+export interface LifecycleTargetArguments extends LifecycleHandlerModuleExecutorArguments {
+    /**
+     * The address of the target.
+     */
+    readonly target: SocketAddress;
+    /**
+     * The zero-based index of the target (s. 'to').
+     */
+    readonly targetIndex: number;
+}
+
+/**
+ * Arguments for the 'onTargetError' hook of a lifecycle handler.
+ */
+export interface LifecycleTargetErrorArguments extends LifecycleTargetArguments {
+    /**
+     * The error.
+     */
+    readonly error: any;
+}
+
+/**
+ * Settings for answering requests with the responses of a recorded trace.
+ */
+export interface MockSettings {
+    /**
+     * The path of the recorded trace, like a trace file or PCAP file.
+     */
+    readonly file: string;
+    /**
+     * One or more regular expressions of the parts of requests, which are ignored by 'fuzzy' and 'http' matching.
+     */
+    readonly ignore?: string | string[];
+    /**
+     * The way, requests are matched, like 'exact', 'fuzzy' or 'http'. Default: 'exact'
+     */
+    readonly match?: string;
+    /**
+     * The time in milliseconds, after an incomplete request is reported as unmatched. Default: 1000
+     */
+    readonly timeout?: number;
+}
+
 /**
  * Describes the structure of the package file of that extenstion.
  */
@@ -147,9 +402,14 @@ export interface ProxyEntry {
      */
     readonly autoStart?: boolean;
     /**
-     * The path to the script that handles a chunk.
+     * One or more breakpoints, which pause a connection for editing a chunk.
+     */
+    readonly breakpoints?: BreakpointSettings | BreakpointSettings[];
+    /**
+     * The path to the script that handles a chunk or an ordered list of handlers,
+     * which are executed one after another.
      */
-    readonly chunkHandler?: string;
+    readonly chunkHandler?: string | ChunkHandlerSettings | (string | ChunkHandlerSettings)[];
     /**
      * Additional options for the "chunk handler".
      */
@@ -162,6 +422,42 @@ export interface ProxyEntry {
      * An additional description for the proxy.
      */
     readonly description?: string;
+    /**
+     * Settings for fault injection.
+     */
+    readonly faults?: FaultInjectionSettings;
+    /**
+     * Check the health of all targets (true) or the default health check settings for the targets.
+     */
+    readonly healthCheck?: boolean | HealthCheckSettings;
+    /**
+     * The path to the script that is notified about the lifecycle of connections and sessions.
+     */
+    readonly lifecycleHandler?: string;
+    /**
+     * Additional options for the "lifecycle handler".
+     */
+    readonly lifecycleHandlerOptions?: any;
+    /**
+     * Initial state value for the "lifecycle handler".
+     */
+    readonly lifecycleHandlerState?: any;
+    /**
+     * The maximum number of bytes of all chunks of a trace (0 = unlimited).
+     */
+    readonly maxTraceBytes?: number;
+    /**
+     * The maximum number of entries of a trace (0 = unlimited).
+     */
+    readonly maxTraceEntries?: number;
+    /**
+     * The path of a recorded trace or the settings for answering requests with it, instead of connecting to the targets.
+     */
+    readonly mock?: string | MockSettings;
+    /**
+     * The balancing mode for the targets, like 'mirror', 'round-robin', 'random', 'least-connections' or 'failover'. Default: 'mirror'
+     */
+    readonly mode?: string;
     /**
      * The name of the proxy.
      */
@@ -174,11 +470,35 @@ export interface ProxyEntry {
      * Output format for traces.
      */
     readonly outputFormat?: string;
+    /**
+     * The protocol, like 'tcp' or 'udp'. Default: 'tcp'
+     */
+    readonly protocol?: string;
     /**
      * The custom list of targets (s. 'to') from where to send answers back
      * to the source / client or (true) or (false) to enable/disable that feature. Default: First target.
      */
     readonly receiveChunksFrom?: boolean | number | number[];
+    /**
+     * One or more rules for rewriting chunks.
+     */
+    readonly rewrite?: RewriteRuleSettings | RewriteRuleSettings[];
+    /**
+     * Limit the running time and the modules of handler scripts and trace writers or not. Default: (false)
+     */
+    readonly scriptLimits?: boolean | ScriptLimitSettings;
+    /**
+     * The time in milliseconds, after an inactive (pseudo) session of an UDP proxy is closed. Default: 60000
+     */
+    readonly sessionTimeout?: number;
+    /**
+     * Settings for simulating slow networks.
+     */
+    readonly shaping?: TrafficShapingSettings;
+    /**
+     * The path or the settings of the file(s), where the trace is written to, while tracing.
+     */
+    readonly traceFile?: string | TraceFileSettings;
     /**
      * The path to the script that handles a (new) trace entry.
      */
@@ -192,7 +512,12 @@ export interface ProxyEntry {
      */
     readonly traceHandlerState?: any;
     /**
-     * The path to the script that writes a trace list, when tracing is stopped.
+     * The policy, if a limit of the trace has been reached, like 'dropOldest', 'spill' or 'stop'. Default: 'dropOldest'
+     */
+    readonly traceLimitPolicy?: string;
+    /**
+     * The path to the script that writes a trace list, when tracing is stopped,
+     * or the name of a built-in writer, like 'har', 'ndjson' or 'pcapng'.
      */
     readonly traceWriter?: string;
     /**
@@ -203,10 +528,18 @@ export interface ProxyEntry {
      * Initial state value for the "trace writer".
      */
     readonly traceWriterState?: any;
+    /**
+     * Accept TLS connections from the source / client (true) or the custom TLS settings.
+     */
+    readonly tls?: boolean | ProxyTlsSettings;
     /**
      * The destination port(s) or address(es).
      */
     readonly to?: ProxyTarget | ProxyTarget[];
+    /**
+     * Handle chunks and create hex dumps for the output in worker threads or not. Default: (false)
+     */
+    readonly workers?: boolean | WorkerSettings;
     /**
      * Write trace entries to output or not.
      */
@@ -216,7 +549,123 @@ export interface ProxyEntry {
 /**
  * A proxy target.
  */
-export type ProxyTarget = string | number;
+export type ProxyTarget = string | number | ProxyTargetEntry;
+
+/**
+ * A proxy target as object.
+ */
+export interface ProxyTargetEntry {
+    /**
+     * Check the health of the target (true) or the custom health check settings.
+     */
+    readonly healthCheck?: boolean | HealthCheckSettings;
+    /**
+     * The host address. Default: '127.0.0.1'
+     */
+    readonly host?: string;
+    /**
+     * The TCP port. Default: 8080
+     */
+    readonly port?: number;
+    /**
+     * Connect to the target via TLS (true) or the custom TLS settings.
+     */
+    readonly tls?: boolean | ProxyTargetTlsSettings;
+}
+
+/**
+ * TLS settings for the connection to a target.
+ */
+export interface ProxyTargetTlsSettings {
+    /**
+     * The path to the file with the CA certificate(s) (PEM), which are trusted.
+     */
+    readonly ca?: string;
+    /**
+     * The path to the client certificate file (PEM).
+     */
+    readonly cert?: string;
+    /**
+     * The path to the file with the private key of the client certificate (PEM).
+     */
+    readonly key?: string;
+    /**
+     * The passphrase for the private key.
+     */
+    readonly passphrase?: string;
+    /**
+     * Reject connections with unverified certificates or not. Default: (true)
+     */
+    readonly rejectUnauthorized?: boolean;
+    /**
+     * The custom server name for the SNI extension. Default: The host address.
+     */
+    readonly servername?: string;
+}
+
+/**
+ * TLS settings for the listener of a proxy.
+ */
+export interface ProxyTlsSettings {
+    /**
+     * The path to the file with the CA certificate(s) (PEM).
+     */
+    readonly ca?: string;
+    /**
+     * The path to the certificate file (PEM). If not defined, a self-signed certificate is generated.
+     */
+    readonly cert?: string;
+    /**
+     * The common name for a generated, self-signed certificate. Default: 'localhost'
+     */
+    readonly commonName?: string;
+    /**
+     * The path to the file with the private key (PEM).
+     */
+    readonly key?: string;
+    /**
+     * The passphrase for the private key.
+     */
+    readonly passphrase?: string;
+}
+
+/**
+ * A rule for rewriting chunks.
+ */
+export interface RewriteRuleSettings {
+    /**
+     * The direction of the chunks, like 'up', 'down' or 'both'. Default: 'both'
+     */
+    readonly direction?: string;
+    /**
+     * Is rule enabled or not. Default: (true)
+     */
+    readonly enabled?: boolean;
+    /**
+     * The flags for a regular expression, like 'i'.
+     */
+    readonly flags?: string;
+    /**
+     * Replace 'all' matches or the 'first' one only. Default: 'all'
+     */
+    readonly matches?: string;
+    /**
+     * A (display) name for the rule.
+     */
+    readonly name?: string;
+    /**
+     * The replacement. Regular expressions can use placeholders like '$1'.
+     */
+    readonly replace?: string;
+    /**
+     * The data or regular expression to search for.
+     */
+    readonly search: string;
+    /**
+     * The type of 'search' and 'replace', like 'literal', 'regex' or 'hex'. Default: 'literal'
+     */
+    readonly type?: string;
+}
 
 /**
  * Script arguments.
@@ -256,6 +705,40 @@ export interface ScriptArguments {
     state: any;
 }
 
+/**
+ * Settings for limiting handler scripts and trace writers.
+ */
+export interface ScriptLimitSettings {
+    /**
+     * The maximum time in milliseconds, an invocation of a script function may run. Default: 1000
+     */
+    readonly timeout?: number;
+}
+
+/**
+ * Arguments for a script, which is executed for a connection / (pseudo) session.
+ */
+export interface SessionScriptArguments extends ScriptArguments {
+    /**
+     * The session.
+     */
+    readonly session: {
+        /**
+         * The ID.
+         */
+        readonly id: string;
+        /**
+         * The start time.
+         */
+        readonly time: Moment.Moment;
+    };
+    /**
+     * Gets or sets a state value for the underlying script, which is only available
+     * for the current session and is removed, after the session has been closed.
+     */
+    sessionState: any;
+}
+
 /**
  * A socket address.
  */
@@ -275,7 +758,7 @@ export interface SocketAddress {
  */
 export interface TraceEntry {
     /**
-     * The chunk.
+     * The chunk, which has been send (after it has been edited, rewritten or handled by a script).
      */
     readonly chunk: Buffer;
     /**
@@ -290,6 +773,19 @@ export interface TraceEntry {
      * The error (if occurred).
      */
     readonly error?: any;
+    /**
+     * The fault, which has been injected (if there is one).
+     */
+    readonly fault?: TraceFault;
+    /**
+     * The chunk, as it has been received, before it has been edited, rewritten or handled by a script.
+     * 'chunk' contains the data, which has been send.
+     */
+    readonly originalChunk?: Buffer;
+    /**
+     * The rewrites, which have been applied to the chunk.
+     */
+    readonly rewrites?: TraceRewrite[];
     /**
      * The session.
      */
@@ -303,6 +799,10 @@ export interface TraceEntry {
          */
         readonly time: Moment.Moment;
     };
+    /**
+     * The traffic shaping, which has been applied to the chunk.
+     */
+    readonly shaping?: TraceShaping;
     /**
      * The source address.
      */
@@ -325,6 +825,38 @@ export interface TraceEntry {
     readonly time: Moment.Moment;
 }
 
+/**
+ * An injected fault.
+ */
+export interface TraceFault {
+    /**
+     * A description of the fault.
+     */
+    readonly description: string;
+    /**
+     * The type, like 'corrupt', 'refuse', 'reset', 'stall' or 'truncate'.
+     */
+    readonly type: string;
+}
+
+/**
+ * Settings for writing a trace to files.
+ */
+export interface TraceFileSettings {
+    /**
+     * The maximum size of a file in bytes, before a new one is started. Default: 0 (unlimited)
+     */
+    readonly maxSize?: number;
+    /**
+     * The path of the file, which is used as template for the names of the files.
+     */
+    readonly path: string;
+    /**
+     * The time in milliseconds, after a new file is started. Default: 0 (never)
+     */
+    readonly rotateAfter?: number;
+}
+
 /**
  * A trace handler module.
  */
@@ -345,7 +877,7 @@ export type TraceHandlerModuleExecutor = (args: TraceHandlerModuleExecutorArgume
 /**
  * Arguments for the trace handler.
  */
-export interface TraceHandlerModuleExecutorArguments extends ScriptArguments {
+export interface TraceHandlerModuleExecutorArguments extends SessionScriptArguments {
     /**
      * The current entry,
      */
@@ -360,6 +892,46 @@ export interface TraceHandlerModuleExecutorArguments extends ScriptArguments {
     readonly trace: TraceEntry[];
 }
 
+/**
+ * A rewrite, which has been applied to a chunk.
+ */
+export interface TraceRewrite {
+    /**
+     * The number of replacements.
+     */
+    readonly count: number;
+    /**
+     * The name of the rule.
+     */
+    readonly name: string;
+}
+
+/**
+ * Information about the traffic shaping of a trace entry.
+ */
+export interface TraceShaping {
+    /**
+     * The maximum number of bytes per second for the direction of the chunk (0 = unlimited).
+     */
+    readonly bytesPerSecond: number;
+    /**
+     * The time in milliseconds, the chunk has been delayed.
+     */
+    readonly delay: number;
+    /**
+     * The configured fixed delay in milliseconds.
+     */
+    readonly fixedDelay: number;
+    /**
+     * The configured maximum random delay in milliseconds.
+     */
+    readonly jitter: number;
+    /**
+     * The scope, like 'connection' or 'proxy'.
+     */
+    readonly scope: string;
+}
+
 /**
  * A trace writer module.
  */
@@ -386,3 +958,36 @@ export interface TraceWriterModuleExecutorArguments extends ScriptArguments {
      */
     readonly trace: TraceEntry[];
 }
+
+/**
+ * Settings for simulating slow networks.
+ */
+export interface TrafficShapingSettings {
+    /**
+     * The maximum number of bytes per second for both directions or each one.
+     * 'up' is from source / proxy to target, 'down' from target to source / proxy.
+     */
+    readonly bytesPerSecond?: number | { up?: number; down?: number; };
+    /**
+     * The fixed delay in milliseconds for each chunk.
+     */
+    readonly delay?: number;
+    /**
+     * The maximum random delay in milliseconds, which is added to 'delay'.
+     */
+    readonly jitter?: number;
+    /**
+     * The scope of 'bytesPerSecond', like 'connection' or 'proxy'. Default: 'connection'
+     */
+    readonly scope?: string;
+}
+
+/**
+ * Settings for worker threads.
+ */
+export interface WorkerSettings {
+    /**
+     * The number of worker threads. Default: 1
+     */
+    readonly count?: number;
+}
@@ -21,10 +21,16 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 // DEALINGS IN THE SOFTWARE.
 
+import * as FS from 'fs';
+import * as Moment from 'moment';
+import * as Path from 'path';
 import * as vscode from 'vscode';
 import * as vsp_contracts from './contracts';
 import * as vsp_helpers from './helpers';
 import * as vsp_proxy from './proxy';
+import * as vsp_replay from './replay';
+import * as vsp_trace from './trace';
+import * as vsp_viewer from './viewer';
 
 
 interface ProxyEntryWithPort {
@@ -41,7 +47,8 @@ export class Controller implements vscode.Disposable {
     private readonly _CONTEXT: vscode.ExtensionContext;
     private readonly _OUTPUT_CHANNEL: vscode.OutputChannel;
     private readonly _PACKAGE_FILE: vsp_contracts.PackageFile;
-    private readonly _PROXIES: vsp_proxy.TcpProxy[] = [];
+    private readonly _PROXIES: vsp_proxy.ProxyBase[] = [];
+    private readonly _TRACE_VIEWERS: vsp_viewer.TraceViewer[] = [];
     
     /**
      * Initializes a new instance of that class.
@@ -72,6 +79,84 @@ export class Controller implements vscode.Disposable {
         return this._CONTEXT;
     }
 
+    /**
+     * Creates a new proxy instance for an entry.
+     * 
+     * @param {ProxyEntryWithPort} entryWithPort The entry with the port.
+     * @param {number} index The zero-based index of the proxy.
+     * 
+     * @return {vsp_proxy.ProxyBase} The new instance.
+     */
+    protected createProxy(entryWithPort: ProxyEntryWithPort, index: number): vsp_proxy.ProxyBase {
+        const PROTOCOL = vsp_helpers.normalizeString(entryWithPort.entry.protocol);
+        switch (PROTOCOL) {
+            case '':
+            case 'tcp':
+                return new vsp_proxy.TcpProxy(this,
+                                              entryWithPort.port,
+                                              entryWithPort.entry, index);
+
+            case 'udp':
+                return new vsp_proxy.UdpProxy(this,
+                                              entryWithPort.port,
+                                              entryWithPort.entry, index);
+        }
+
+        throw new Error(`Protocol '${PROTOCOL}' is not supported!`);
+    }
+
+    /**
+     * Creates a TypeScript definition file in the '.vscode' folder,
+     * which contains the types for scripts.
+     */
+    protected async createScriptTypes() {
+        const ME = this;
+
+        try {
+            const DECLARATIONS = FS.readFileSync(Path.join(__dirname, 'contracts.d.ts'), 'utf8');
+
+            const REFERENCES: string[] = [];
+            const BODY: string[] = [];
+            for (const LINE of DECLARATIONS.split(/\r?\n/)) {
+                if (LINE.startsWith('///')) {
+                    REFERENCES.push(LINE);  // must be at the top of the file
+                }
+                else {
+                    BODY.push(
+                        ('    ' + LINE.replace(/^export declare /, 'export ')).replace(/\s+$/, '')
+                    );
+                }
+            }
+
+            const FILE = vsp_helpers.toFullPath(`${vsp_helpers.CONTRACTS_MODULE}.d.ts`);
+
+            FS.writeFileSync(FILE, [
+                `// generated by ${ME.packageFile.displayName} ${ME.packageFile.version}`,
+                ...REFERENCES,
+                '',
+                `declare module '${vsp_helpers.CONTRACTS_MODULE}' {`,
+                ...BODY,
+                '}',
+                '',
+            ].join('\n'), 'utf8');
+
+            ME.outputChannel.appendLine(
+                `[Proxy] Types for scripts have been written to '${FILE}'.`
+            );
+
+            await vscode.window.showTextDocument(
+                await vscode.workspace.openTextDocument(FILE)
+            );
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[Proxy] Could not create types for scripts: ${vsp_helpers.toStringSafe(e)}`).then(() => {
+            }, (err) => {
+                console.trace('[Proxy] controller.createScriptTypes(): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+        }
+    }
+
     /** @inheritdoc */
     public dispose() {
         this.disposeOldProxies();
@@ -117,24 +202,53 @@ export class Controller implements vscode.Disposable {
         return LOADED_ENTRIES;
     }
 
+    /**
+     * Gets the width for binary data in hex view.
+     */
+    public get hexWidth(): number {
+        const HEX_WIDTH = parseInt( vsp_helpers.toStringSafe(this.config.hexWidth) );
+
+        return isNaN(HEX_WIDTH) || HEX_WIDTH < 1 ? 16 : HEX_WIDTH;
+    }
+
     /**
      * Is invoked after the extension has been activated.
      */
     public onActivated() {
         const ME = this;
+
+        // create types for scripts
+        const CMD_CREATE_SCRIPT_TYPES = vscode.commands.registerCommand('extension.proxy.createScriptTypes', async () => {
+            await ME.createScriptTypes();
+        });
         
+        // open trace file
+        const CMD_OPEN_TRACE_FILE = vscode.commands.registerCommand('extension.proxy.openTraceFile', async () => {
+            await ME.openTraceFile();
+        });
+
+        // replay
+        const CMD_REPLAY = vscode.commands.registerCommand('extension.proxy.replay', async () => {
+            await ME.replay();
+        });
+
         // start / stop
         const CMD_START_STOP = vscode.commands.registerCommand('extension.proxy.startStop', async () => {
             await ME.startStop();
         });
 
+        // toggle fault injection
+        const CMD_TOGGLE_FAULTS = vscode.commands.registerCommand('extension.proxy.toggleFaults', async () => {
+            await ME.toggleFaults();
+        });
+
         // trace
         const CMD_TRACE = vscode.commands.registerCommand('extension.proxy.trace', async () => {
             await ME.trace();
         });
 
         ME.context.subscriptions
-                  .push(CMD_START_STOP, CMD_TRACE);
+                  .push(CMD_CREATE_SCRIPT_TYPES, CMD_OPEN_TRACE_FILE, CMD_REPLAY, CMD_START_STOP, CMD_TOGGLE_FAULTS, CMD_TRACE);
 
         ME.context.subscriptions
                   .push(vscode.workspace.onDidChangeConfiguration(ME.onDidChangeConfiguration, ME));
@@ -158,6 +272,78 @@ export class Controller implements vscode.Disposable {
         this.reloadConfiguration();
     }
 
+    /**
+     * Loads a saved trace file or selects one, which has already been loaded, and shows its actions.
+     */
+    protected async openTraceFile() {
+        const ME = this;
+
+        try {
+            const OPEN_FILE = async () => {
+                const FILES = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: {
+                        'Traces': [ 'ndjson', 'jsonl', 'json', 'pcap', 'pcapng', 'cap' ],
+                    },
+                    openLabel: 'Open trace',
+                });
+                if (!FILES || FILES.length < 1) {
+                    return;
+                }
+
+                const FILE = FILES[0].fsPath;
+
+                const NEW_VIEWER = new vsp_viewer.TraceViewer(ME, Path.basename(FILE),
+                                                              vsp_trace.readTraceFile(FILE), FILE);
+
+                ME._TRACE_VIEWERS.push(NEW_VIEWER);
+
+                await NEW_VIEWER.showActions();
+            };
+
+            if (ME._TRACE_VIEWERS.length < 1) {
+                await OPEN_FILE();
+                return;
+            }
+
+            const QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = ME._TRACE_VIEWERS.map(v => {
+                const QP: vsp_contracts.ActionQuickPickItem = {
+                    action: async () => {
+                        await v.showActions();
+                    },
+                    description: `${v.trace.length} entries`,
+                    detail: v.file,
+                    label: '$(file-text)  ' + v.name,
+                };
+
+                return QP;
+            });
+            QUICK_PICKS.push({
+                action: async () => {
+                    await OPEN_FILE();
+                },
+                description: '',
+                label: '$(file-directory)  Open trace file...',
+            });
+
+            const SELECTED_ITEM = await vscode.window.showQuickPick(QUICK_PICKS, {
+                placeHolder: 'Select a trace...',
+            });
+            if (SELECTED_ITEM) {
+                await Promise.resolve(
+                    SELECTED_ITEM.action(SELECTED_ITEM.state, SELECTED_ITEM),
+                );
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[Proxy] Could not open trace file: ${vsp_helpers.toStringSafe(e)}`).then(() => {
+            }, (err) => {
+                console.trace('[Proxy] controller.openTraceFile(): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+        }
+    }
+
     /**
      * Gets the underlying output channel.
      */
@@ -209,9 +395,7 @@ export class Controller implements vscode.Disposable {
                                                         i + 1);
 
             try {
-                const NEW_PROXY = new vsp_proxy.TcpProxy(this,
-                                                         PROXY_ENTRY.port,
-                                                         PROXY_ENTRY.entry, i);
+                const NEW_PROXY = this.createProxy(PROXY_ENTRY, i);
                 await NEW_PROXY.init();
 
                 this._PROXIES.push(NEW_PROXY);
@@ -249,6 +433,320 @@ export class Controller implements vscode.Disposable {
         }
     }
 
+    /**
+     * Replays sessions of a trace against a target and shows the actions of the new trace.
+     */
+    protected async replay() {
+        const ME = this;
+
+        try {
+            // source
+            let source: {
+                name: string,
+                protocol: string,
+                targets: vsp_contracts.ProxyTarget[],
+                trace: vsp_contracts.TraceEntry[],
+            };
+
+            const SOURCE_QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = [];
+            ME._PROXIES.forEach(p => {
+                const TRACE = p.trace;  // (null), if not tracing
+                if (!TRACE || TRACE.length < 1) {
+                    return;
+                }
+
+                SOURCE_QUICK_PICKS.push({
+                    action: () => {
+                        source = {
+                            name: p.name,
+                            protocol: p.protocol,
+                            targets: vsp_helpers.asArray(p.entry.to),
+                            trace: TRACE,
+                        };
+                    },
+                    description: `${TRACE.length} entries`,
+                    label: '$(radio-tower)  ' + p.name,
+                });
+            });
+            ME._TRACE_VIEWERS.forEach(v => {
+                SOURCE_QUICK_PICKS.push({
+                    action: () => {
+                        source = {
+                            name: v.name,
+                            protocol: v.protocol,
+                            targets: [],
+                            trace: v.trace,
+                        };
+                    },
+                    description: `${v.trace.length} entries`,
+                    detail: v.file,
+                    label: '$(file-text)  ' + v.name,
+                });
+            });
+            SOURCE_QUICK_PICKS.push({
+                action: async () => {
+                    const FILES = await vscode.window.showOpenDialog({
+                        canSelectMany: false,
+                        filters: {
+                            'Traces': [ 'ndjson', 'jsonl', 'json', 'pcap', 'pcapng', 'cap' ],
+                        },
+                        openLabel: 'Open trace',
+                    });
+                    if (!FILES || FILES.length < 1) {
+                        return;
+                    }
+
+                    const FILE = FILES[0].fsPath;
+                    const TRACE_FILE = vsp_trace.readTraceFile(FILE);
+
+                    source = {
+                        name: Path.basename(FILE),
+                        protocol: TRACE_FILE.protocol,
+                        targets: [],
+                        trace: TRACE_FILE.trace,
+                    };
+                },
+                description: '',
+                label: '$(file-directory)  Open trace file...',
+            });
+
+            const SELECTED_SOURCE = await vscode.window.showQuickPick(SOURCE_QUICK_PICKS, {
+                placeHolder: 'Select the trace to replay...',
+            });
+            if (!SELECTED_SOURCE) {
+                return;
+            }
+
+            await Promise.resolve(
+                SELECTED_SOURCE.action(SELECTED_SOURCE.state, SELECTED_SOURCE),
+            );
+            if (!source) {
+                return;
+            }
+
+            const UPSTREAM = source.trace.filter(te => {
+                return te.session &&
+                       vsp_contracts.ProxyDestination.ProxyToTarget === te.destination &&
+                       (te.chunk || te.originalChunk);
+            });
+            if (UPSTREAM.length < 1) {
+                vscode.window.showWarningMessage(`[Proxy] '${source.name}' contains no chunks, which have been sent to a target.`).then(() => {
+                }, (err) => {
+                    console.trace('[Proxy] controller.replay(1): ' +
+                                  vsp_helpers.toStringSafe(err));
+                });
+
+                return;
+            }
+
+            // sessions
+            const SESSION_IDS = vsp_helpers.distinctArray(
+                UPSTREAM.map(te => te.session.id)
+            );
+
+            const SESSION_QUICK_PICKS = SESSION_IDS.map(id => {
+                const FIRST = UPSTREAM.filter(te => te.session.id === id)[0];
+
+                const QP: vscode.QuickPickItem & { id: string } = {
+                    description: `${UPSTREAM.filter(te => te.session.id === id).length} chunks`,
+                    detail: id,
+                    id: id,
+                    label: vsp_trace.toSocketAddressPipeString(FIRST),
+                    picked: true,
+                };
+
+                return QP;
+            });
+
+            const SELECTED_SESSIONS = await vscode.window.showQuickPick(SESSION_QUICK_PICKS, {
+                canPickMany: true,
+                placeHolder: 'Select the sessions to replay...',
+            });
+            if (!SELECTED_SESSIONS || SELECTED_SESSIONS.length < 1) {
+                return;
+            }
+
+            const SESSIONS = SELECTED_SESSIONS.map(qp => qp.id);
+            const SESSION_UPSTREAM = UPSTREAM.filter(te => SESSIONS.indexOf(te.session.id) > -1);
+
+            // target
+            let target: vsp_contracts.ProxyTarget;
+
+            const TARGET_QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = source.targets.map(t => {
+                const ADDR = vsp_helpers.getTargetAddress(t, 8080);
+
+                const QP: vsp_contracts.ActionQuickPickItem = {
+                    action: () => {
+                        target = t;
+                    },
+                    description: ADDR.tls ? 'TLS' : '',
+                    label: `$(server)  ${ADDR.host}:${ADDR.port}`,
+                };
+
+                return QP;
+            });
+            TARGET_QUICK_PICKS.push({
+                action: async () => {
+                    const FIRST_TARGET = SESSION_UPSTREAM[0].target;
+
+                    let defaultTarget = '';
+                    if (FIRST_TARGET && FIRST_TARGET.addr) {
+                        defaultTarget = (FIRST_TARGET.addr.indexOf(':') > -1 ? `[${FIRST_TARGET.addr}]` : FIRST_TARGET.addr) +
+                                        ':' + FIRST_TARGET.port;
+                    }
+
+                    const VALUE = await vscode.window.showInputBox({
+                        placeHolder: 'Target address, like host:port or tls://host:port',
+                        prompt: 'Target',
+                        value: defaultTarget,
+                    });
+                    if (!vsp_helpers.isEmptyString(VALUE)) {
+                        target = VALUE.trim();
+                    }
+                },
+                description: '',
+                label: '$(pencil)  Other target...',
+            });
+
+            const SELECTED_TARGET = await vscode.window.showQuickPick(TARGET_QUICK_PICKS, {
+                placeHolder: 'Select the target...',
+            });
+            if (!SELECTED_TARGET) {
+                return;
+            }
+
+            await Promise.resolve(
+                SELECTED_TARGET.action(SELECTED_TARGET.state, SELECTED_TARGET),
+            );
+            if (vsp_helpers.isNullOrUndefined(target)) {
+                return;
+            }
+
+            const TARGET = vsp_helpers.getTargetAddress(target, 8080);
+
+            // timing
+            let speed: number;
+
+            const TIMING_QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = [{
+                action: () => {
+                    speed = 1;
+                },
+                description: 'Send chunks with the same delays as in the trace',
+                label: 'Original timing',
+            }, {
+                action: async () => {
+                    const VALUE = await vscode.window.showInputBox({
+                        placeHolder: 'Factor, like 10',
+                        prompt: 'Speed up the original timing by',
+                        value: '10',
+                    });
+
+                    const FACTOR = parseFloat(vsp_helpers.toStringSafe(VALUE).trim());
+                    if (!isNaN(FACTOR) && FACTOR > 0) {
+                        speed = FACTOR;
+                    }
+                },
+                description: 'Send chunks with shortened delays',
+                label: 'Accelerated timing...',
+            }, {
+                action: () => {
+                    speed = 0;
+                },
+                description: 'Send chunks without delays',
+                label: 'As fast as possible',
+            }];
+
+            const SELECTED_TIMING = await vscode.window.showQuickPick(TIMING_QUICK_PICKS, {
+                placeHolder: 'Select the timing...',
+            });
+            if (!SELECTED_TIMING) {
+                return;
+            }
+
+            await Promise.resolve(
+                SELECTED_TIMING.action(SELECTED_TIMING.state, SELECTED_TIMING),
+            );
+            if (vsp_helpers.isNullOrUndefined(speed)) {
+                return;
+            }
+
+            // chunks
+            let original = false;
+            if (SESSION_UPSTREAM.some(te => vsp_trace.isChunkModified(te))) {
+                const CHUNK_QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = [{
+                    action: () => {
+                        original = false;
+                    },
+                    description: 'The chunks, as they have been sent to the target',
+                    label: 'Sent chunks',
+                }, {
+                    action: () => {
+                        original = true;
+                    },
+                    description: 'The chunks, as they have been received from the client',
+                    label: 'Original chunks',
+                }];
+
+                const SELECTED_CHUNKS = await vscode.window.showQuickPick(CHUNK_QUICK_PICKS, {
+                    placeHolder: 'Some chunks have been modified. Which ones should be sent?',
+                });
+                if (!SELECTED_CHUNKS) {
+                    return;
+                }
+
+                await Promise.resolve(
+                    SELECTED_CHUNKS.action(SELECTED_CHUNKS.state, SELECTED_CHUNKS),
+                );
+            }
+
+            const SOURCE = source;
+            const TARGET_NAME = `${TARGET.host}:${TARGET.port}`;
+
+            ME.outputChannel.appendLine(`[Proxy] Replaying ${SESSIONS.length} session(s) of '${SOURCE.name}' to '${TARGET_NAME}' ...`);
+
+            const RESULT = await vscode.window.withProgress({
+                cancellable: true,
+                location: vscode.ProgressLocation.Notification,
+                title: `[Proxy] Replaying '${SOURCE.name}' to '${TARGET_NAME}' ...`,
+            }, async (progress, token) => {
+                return await vsp_replay.replayTrace(SOURCE.trace, {
+                    original: original,
+                    protocol: SOURCE.protocol,
+                    sessions: SESSIONS,
+                    speed: speed,
+                    target: TARGET,
+                    timeout: vsp_replay.DEFAULT_TIMEOUT,
+                }, token);
+            });
+
+            const RESPONSES = RESULT.trace.filter(te => {
+                return vsp_contracts.ProxyDestination.TargetToProxy === te.destination;
+            }).length;
+            const ERRORS = RESULT.trace.filter(te => te.error).length;
+
+            ME.outputChannel.appendLine(`[Proxy] Replay of '${SOURCE.name}' to '${TARGET_NAME}' has been finished: ${RESPONSES} response chunk(s), ${ERRORS} error(s)`);
+
+            const NEW_VIEWER = new vsp_viewer.TraceViewer(ME, `replay-${Moment().format('YYYYMMDD-HHmmss')}`, {
+                protocol: SOURCE.protocol,
+                trace: RESULT.trace,
+            }, undefined, {
+                result: RESULT,
+                trace: SOURCE.trace,
+            });
+
+            ME._TRACE_VIEWERS.push(NEW_VIEWER);
+
+            await NEW_VIEWER.showActions();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[Proxy] Could not replay trace: ${vsp_helpers.toStringSafe(e)}`).then(() => {
+            }, (err) => {
+                console.trace('[Proxy] controller.replay(2): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+        }
+    }
+
     private async showDeprecatedMessage() {
         const KEY_SHOW_DEPRECATED_MESSAGE = 'vspShowDeprecatedMessage';
 
@@ -303,11 +801,11 @@ export class Controller implements vscode.Disposable {
      * @param {Function} [iconResolver] The function that receives the icon name for a proxy entry.
      */
     protected async showProxyQuickPick(placeHolder: string,
-                                       action: (proxies: vsp_proxy.TcpProxy[]) => any,
-                                       iconResolver?: (proxy: vsp_proxy.TcpProxy) => any) {
+                                       action: (proxies: vsp_proxy.ProxyBase[]) => any,
+                                       iconResolver?: (proxy: vsp_proxy.ProxyBase) => any) {
         const ALL_PROXIES = this._PROXIES || [];
 
-        const INVOKE_ACTION = async (proxies: vsp_proxy.TcpProxy[]) => {
+        const INVOKE_ACTION = async (proxies: vsp_proxy.ProxyBase[]) => {
             if (action) {
                 await Promise.resolve(
                     action(proxies),
@@ -332,7 +830,7 @@ export class Controller implements vscode.Disposable {
                 }
             }
 
-            const QP: vsp_contracts.ActionQuickPickItem<vsp_proxy.TcpProxy> = {
+            const QP: vsp_contracts.ActionQuickPickItem<vsp_proxy.ProxyBase> = {
                 action: async (s) => {
                     await INVOKE_ACTION([ s ]);
                 },
@@ -348,7 +846,7 @@ export class Controller implements vscode.Disposable {
             return;
         }
 
-        const ALL_QUICK_PICK: vsp_contracts.ActionQuickPickItem<vsp_proxy.TcpProxy> = {
+        const ALL_QUICK_PICK: vsp_contracts.ActionQuickPickItem<vsp_proxy.ProxyBase> = {
             action: async () => {
                 await INVOKE_ACTION(ALL_PROXIES);
             },
@@ -358,7 +856,7 @@ export class Controller implements vscode.Disposable {
         };
         QUICK_PICKS.push(ALL_QUICK_PICK);
 
-        const HANDLE_ITEM = async (item: vsp_contracts.ActionQuickPickItem<vsp_proxy.TcpProxy>) => {
+        const HANDLE_ITEM = async (item: vsp_contracts.ActionQuickPickItem<vsp_proxy.ProxyBase>) => {
             if (!item) {
                 return;
             }
@@ -422,6 +920,52 @@ export class Controller implements vscode.Disposable {
         }
     }
 
+    /**
+     * Enables / disables fault injection.
+     */
+    protected async toggleFaults() {
+        const ME = this;
+
+        try {
+            await ME.showProxyQuickPick('Select the proxy to enable / disable fault injection...', async (proxies) => {
+                for (let i = 0; i < proxies.length; i++) {
+                    const P = proxies[i];
+                    if (!P.hasFaults) {
+                        continue;
+                    }
+
+                    try {
+                        P.toggleFaults();
+                    }
+                    catch (e) {
+                        // failed toggle fault injection
+
+                        vscode.window.showErrorMessage(`[Proxy] Could not toggle fault injection for '${P.name}': ${vsp_helpers.toStringSafe(e)}`).then(() => {
+                        }, (err) => {
+                            console.trace('[Proxy] controller.toggleFaults(2): ' +
+                                          vsp_helpers.toStringSafe(err));
+                        });
+                    }
+                }
+            }, (p) => {
+                if (!p.hasFaults) {
+                    return 'circle-slash';
+                }
+
+                return p.isInjectingFaults ? 'triangle-right' : 'primitive-square';
+            });
+        }
+        catch (e) {
+            // "global" error
+
+            vscode.window.showErrorMessage(`[Proxy] Could not show proxies for fault injection: ${vsp_helpers.toStringSafe(e)}`).then(() => {
+            }, (err) => {
+                console.trace('[Proxy] controller.toggleFaults(1): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+        }
+    }
+
     /**
      * Starts / stops tracing.
      */
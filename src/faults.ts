@@ -0,0 +1,294 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * Normalized fault injection settings.
+ */
+export interface FaultInjectionOptions {
+    /**
+     * The probability (0 - 1) of corrupting a chunk.
+     */
+    readonly corrupt: number;
+    /**
+     * The directions, where faults are injected into chunks.
+     */
+    readonly destinations: vsp_contracts.ProxyDestination[];
+    /**
+     * Inject faults on start or not.
+     */
+    readonly enabled: boolean;
+    /**
+     * The probability (0 - 1) of refusing a new connection.
+     */
+    readonly refuse: number;
+    /**
+     * The probability (0 - 1) of resetting a connection.
+     */
+    readonly reset: number;
+    /**
+     * The probability (0 - 1) of stalling a direction of a connection.
+     */
+    readonly stall: number;
+    /**
+     * The probability (0 - 1) of truncating a chunk.
+     */
+    readonly truncate: number;
+}
+
+/**
+ * A chunk, after faults have been injected.
+ */
+export interface InjectedChunk {
+    /**
+     * The (new) chunk.
+     */
+    readonly chunk: Buffer;
+    /**
+     * The injected fault (if there is one).
+     */
+    readonly fault?: vsp_contracts.TraceFault;
+}
+
+
+/**
+ * Injects faults into the connections of a proxy.
+ */
+export class FaultInjector {
+    private readonly _IS_ENABLED: () => boolean;
+    private readonly _OPTIONS: FaultInjectionOptions;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {FaultInjectionOptions} options The options.
+     * @param {Function} isEnabled The function, which checks if faults should be injected currently.
+     */
+    constructor(options: FaultInjectionOptions, isEnabled: () => boolean) {
+        this._OPTIONS = options;
+        this._IS_ENABLED = isEnabled;
+    }
+
+    /**
+     * Creates the fault state for a new connection.
+     * 
+     * @return {ConnectionFaults} The new state.
+     */
+    public createConnection(): ConnectionFaults {
+        return new ConnectionFaults(this);
+    }
+
+    /**
+     * Gets if faults are injected currently or not.
+     */
+    public get isEnabled(): boolean {
+        return this._IS_ENABLED();
+    }
+
+    /**
+     * Gets the options.
+     */
+    public get options(): FaultInjectionOptions {
+        return this._OPTIONS;
+    }
+
+    /**
+     * Checks if a new connection should be refused.
+     * 
+     * @return {vsp_contracts.TraceFault|false} The fault or (false) if connection should be accepted.
+     */
+    public refuse(): vsp_contracts.TraceFault | false {
+        if (this.isEnabled && isHit(this.options.refuse)) {
+            return {
+                description: 'Connection has been refused',
+                type: 'refuse',
+            };
+        }
+
+        return false;
+    }
+}
+
+/**
+ * The fault state of a single connection.
+ */
+export class ConnectionFaults {
+    private readonly _INJECTOR: FaultInjector;
+    private _isReset = false;
+    private readonly _STALLED: { [destination: number]: boolean } = {};
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {FaultInjector} injector The underlying injector.
+     */
+    constructor(injector: FaultInjector) {
+        this._INJECTOR = injector;
+    }
+
+    /**
+     * Injects faults into a chunk.
+     * 
+     * @param {Buffer} chunk The chunk.
+     * @param {vsp_contracts.ProxyDestination} destination The direction.
+     * 
+     * @return {InjectedChunk} The (new) chunk and the fault.
+     */
+    public inject(chunk: Buffer, destination: vsp_contracts.ProxyDestination): InjectedChunk {
+        const ME = this;
+
+        if (ME._isReset) {
+            return {
+                chunk: null,  // connection is gone
+            };
+        }
+
+        if (ME._STALLED[destination]) {
+            return {
+                chunk: null,
+                fault: {
+                    description: 'Direction has been stalled',
+                    type: 'stall',
+                },
+            };
+        }
+
+        const OPTS = ME._INJECTOR.options;
+        if (!ME._INJECTOR.isEnabled || !chunk || OPTS.destinations.indexOf(destination) < 0) {
+            return {
+                chunk: chunk,
+            };
+        }
+
+        if (isHit(OPTS.reset)) {
+            ME._isReset = true;
+
+            return {
+                chunk: null,
+                fault: {
+                    description: 'Connection has been reset',
+                    type: 'reset',
+                },
+            };
+        }
+
+        if (isHit(OPTS.stall)) {
+            ME._STALLED[destination] = true;
+
+            return {
+                chunk: null,
+                fault: {
+                    description: 'Direction has been stalled',
+                    type: 'stall',
+                },
+            };
+        }
+
+        if (chunk.length > 0) {
+            if (isHit(OPTS.truncate)) {
+                const NEW_LENGTH = Math.floor(Math.random() * chunk.length);
+
+                return {
+                    chunk: chunk.slice(0, NEW_LENGTH),
+                    fault: {
+                        description: `Chunk has been truncated from ${chunk.length} to ${NEW_LENGTH} byte(s)`,
+                        type: 'truncate',
+                    },
+                };
+            }
+
+            if (isHit(OPTS.corrupt)) {
+                const NEW_CHUNK = Buffer.from(chunk);
+
+                const OFFSET = Math.floor(Math.random() * NEW_CHUNK.length);
+                NEW_CHUNK[OFFSET] ^= 1 + Math.floor(Math.random() * 255);
+
+                return {
+                    chunk: NEW_CHUNK,
+                    fault: {
+                        description: `Byte at offset ${OFFSET} has been corrupted`,
+                        type: 'corrupt',
+                    },
+                };
+            }
+        }
+
+        return {
+            chunk: chunk,
+        };
+    }
+
+    /**
+     * Gets if the connection has been reset or not.
+     */
+    public get isReset(): boolean {
+        return this._isReset;
+    }
+}
+
+
+function isHit(probability: number) {
+    return probability > 0 &&
+           Math.random() < probability;
+}
+
+/**
+ * Normalizes fault injection settings.
+ * 
+ * @param {vsp_contracts.FaultInjectionSettings} settings The settings.
+ * 
+ * @return {FaultInjectionOptions|false} The options or (false) if no fault should be injected.
+ */
+export function toFaultInjectionOptions(settings: vsp_contracts.FaultInjectionSettings): FaultInjectionOptions | false {
+    if (!settings) {
+        return false;
+    }
+
+    const TO_PROBABILITY = (val: any) => {
+        const NR = parseFloat( vsp_helpers.toStringSafe(val).trim() );
+
+        return isNaN(NR) ? 0 : Math.min(1, Math.max(0, NR));
+    };
+
+    const OPTS: FaultInjectionOptions = {
+        corrupt: TO_PROBABILITY(settings.corrupt),
+        destinations: vsp_helpers.getDestinations(settings.direction),
+        enabled: vsp_helpers.toBooleanSafe(settings.enabled, true),
+        refuse: TO_PROBABILITY(settings.refuse),
+        reset: TO_PROBABILITY(settings.reset),
+        stall: TO_PROBABILITY(settings.stall),
+        truncate: TO_PROBABILITY(settings.truncate),
+    };
+
+    if (OPTS.corrupt <= 0 && OPTS.refuse <= 0 && OPTS.reset <= 0 &&
+        OPTS.stall <= 0 && OPTS.truncate <= 0) {
+        return false;  // nothing to inject
+    }
+
+    return OPTS;
+}
@@ -0,0 +1,438 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Dgram from 'dgram';
+import * as Events from 'events';
+import * as Net from 'net';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * The health state of a target.
+ */
+export interface TargetHealth {
+    /**
+     * The number of checks in a row, which failed.
+     */
+    failures: number;
+    /**
+     * Target is healthy or not.
+     */
+    healthy: boolean;
+    /**
+     * The zero-based index of the target.
+     */
+    readonly index: number;
+    /**
+     * The error of the last failed check.
+     */
+    lastError?: any;
+    /**
+     * The number of checks in a row, which succeeded.
+     */
+    successes: number;
+}
+
+/**
+ * Checks a target.
+ * 
+ * @param {number} index The zero-based index of the target.
+ * @param {HealthCheckOptions} options The options.
+ * 
+ * @return {Promise<any>} The promise, which is rejected if check failed.
+ */
+export type TargetProbe = (index: number, options: HealthCheckOptions) => Promise<any>;
+
+/**
+ * Normalized health check settings.
+ */
+export interface HealthCheckOptions {
+    /**
+     * The data, which is expected in the answer of the target.
+     */
+    readonly expect: Buffer | false;
+    /**
+     * The number of successful checks in a row, before an unhealthy target is marked as healthy again.
+     */
+    readonly healthyThreshold: number;
+    /**
+     * The time in milliseconds between two checks.
+     */
+    readonly interval: number;
+    /**
+     * The data to send to the target.
+     */
+    readonly send: Buffer | false;
+    /**
+     * The timeout in milliseconds for a single check.
+     */
+    readonly timeout: number;
+    /**
+     * The number of failed checks in a row, before a target is marked as unhealthy.
+     */
+    readonly unhealthyThreshold: number;
+}
+
+
+/**
+ * Checks the health of targets.
+ */
+export class HealthChecker extends Events.EventEmitter implements vscode.Disposable {
+    private readonly _OPTIONS: (HealthCheckOptions | false)[];
+    private readonly _PROBE: TargetProbe;
+    private readonly _STATES: TargetHealth[];
+    private readonly _TIMERS: NodeJS.Timer[] = [];
+    private _isRunning = false;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {(HealthCheckOptions|false)[]} options The options for each target or (false) if a target should not be checked.
+     * @param {TargetProbe} probe The function that checks a target.
+     */
+    constructor(options: (HealthCheckOptions | false)[], probe: TargetProbe) {
+        super();
+
+        this._OPTIONS = options;
+        this._PROBE = probe;
+        this._STATES = options.map((o, i) => {
+            return {
+                failures: 0,
+                healthy: true,
+                index: i,
+                successes: 0,
+            };
+        });
+    }
+
+    /**
+     * Runs a check for a target and updates its state.
+     * 
+     * @param {number} index The zero-based index of the target.
+     */
+    protected async check(index: number) {
+        const OPTS = this._OPTIONS[index];
+        if (!OPTS) {
+            return;
+        }
+
+        const STATE = this._STATES[index];
+        const WAS_HEALTHY = STATE.healthy;
+
+        try {
+            await this._PROBE(index, OPTS);
+
+            STATE.failures = 0;
+            ++STATE.successes;
+
+            if (!STATE.healthy && STATE.successes >= OPTS.healthyThreshold) {
+                STATE.healthy = true;
+                STATE.lastError = undefined;
+            }
+        }
+        catch (e) {
+            STATE.lastError = e;
+            STATE.successes = 0;
+            ++STATE.failures;
+
+            if (STATE.healthy && STATE.failures >= OPTS.unhealthyThreshold) {
+                STATE.healthy = false;
+            }
+        }
+
+        if (this._isRunning && WAS_HEALTHY !== STATE.healthy) {
+            this.emit('changed', STATE);
+        }
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        this.stop();
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * Returns the state of a target.
+     * 
+     * @param {number} index The zero-based index of the target.
+     * 
+     * @return {TargetHealth} The state.
+     */
+    public getState(index: number): TargetHealth {
+        return this._STATES[index];
+    }
+
+    /**
+     * Checks if a target is healthy or not.
+     * 
+     * @param {number} index The zero-based index of the target.
+     * 
+     * @return {boolean} Is healthy or not.
+     */
+    public isHealthy(index: number): boolean {
+        const STATE = this._STATES[index];
+
+        return !STATE || STATE.healthy;
+    }
+
+    /**
+     * Starts checking.
+     */
+    public start() {
+        const ME = this;
+
+        if (ME._isRunning) {
+            return;
+        }
+        ME._isRunning = true;
+
+        ME._OPTIONS.forEach((opts, i) => {
+            if (!opts) {
+                return;
+            }
+
+            const NEXT = () => {
+                ME.check(i).then(() => {
+                }).catch((err) => {
+                    console.trace('[Proxy] health.HealthChecker.start(): ' +
+                                  vsp_helpers.toStringSafe(err));
+                }).then(() => {
+                    if (ME._isRunning) {
+                        ME._TIMERS[i] = setTimeout(NEXT, opts.interval);
+                    }
+                });
+            };
+
+            NEXT();
+        });
+    }
+
+    /**
+     * Gets the states of all targets.
+     */
+    public get states(): TargetHealth[] {
+        return this._STATES;
+    }
+
+    /**
+     * Stops checking.
+     */
+    public stop() {
+        this._isRunning = false;
+
+        this._TIMERS.forEach(t => {
+            if (t) {
+                clearTimeout(t);
+            }
+        });
+        this._TIMERS.length = 0;
+    }
+}
+
+
+/**
+ * Checks if data contains an expected pattern.
+ * 
+ * @param {Buffer} data The received data.
+ * @param {HealthCheckOptions} options The options.
+ * 
+ * @return {boolean} Contains the pattern or not.
+ */
+export function isExpectedAnswer(data: Buffer, options: HealthCheckOptions): boolean {
+    if (!options.expect) {
+        return true;
+    }
+
+    return data.indexOf(options.expect) > -1;
+}
+
+/**
+ * Checks a target by a socket connection (TCP / TLS).
+ * 
+ * @param {Function} createSocket The function that creates the socket to the target.
+ * @param {string} connectEvent The name of the event, which is emitted by the socket, after the connection has been established.
+ * @param {HealthCheckOptions} options The options.
+ * 
+ * @return {Promise<void>} The promise, which is rejected if check failed.
+ */
+export function probeSocket(createSocket: () => Net.Socket, connectEvent: string,
+                            options: HealthCheckOptions): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+        let socket: Net.Socket;
+        let timer: NodeJS.Timer;
+        const DONE = (err?: any) => {
+            clearTimeout(timer);
+
+            if (socket) {
+                socket.destroy();
+            }
+
+            COMPLETED(err);
+        };
+
+        try {
+            timer = setTimeout(() => {
+                DONE(new Error(`Health check timed out after ${options.timeout} ms!`));
+            }, options.timeout);
+
+            socket = createSocket();
+
+            let answer = Buffer.alloc(0);
+
+            socket.on('error', (err) => {
+                DONE(err);
+            });
+
+            socket.once(connectEvent, () => {
+                if (options.send) {
+                    socket.write(options.send);
+                }
+
+                if (!options.expect) {
+                    DONE();
+                }
+            });
+
+            socket.on('data', (chunk: Buffer) => {
+                answer = Buffer.concat([ answer, chunk ]);
+
+                if (isExpectedAnswer(answer, options)) {
+                    DONE();
+                }
+            });
+
+            socket.once('end', () => {
+                DONE(new Error('Connection has been closed before receiving expected answer!'));
+            });
+        }
+        catch (e) {
+            DONE(e);
+        }
+    });
+}
+
+/**
+ * Checks an UDP target, by sending data and waiting for an answer.
+ * 
+ * @param {vsp_helpers.TargetAddress} target The target.
+ * @param {HealthCheckOptions} options The options.
+ * 
+ * @return {Promise<void>} The promise, which is rejected if check failed.
+ */
+export function probeUdp(target: vsp_helpers.TargetAddress, options: HealthCheckOptions): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+        if (!options.send) {
+            // there is no connection in UDP
+            // so we cannot check anything
+            COMPLETED(null);
+            return;
+        }
+
+        let socket: Dgram.Socket;
+        let timer: NodeJS.Timer;
+        const DONE = (err?: any) => {
+            clearTimeout(timer);
+
+            if (socket) {
+                try {
+                    socket.close();
+                }
+                catch (e) { }
+            }
+
+            COMPLETED(err);
+        };
+
+        try {
+            timer = setTimeout(() => {
+                DONE(new Error(`Health check timed out after ${options.timeout} ms!`));
+            }, options.timeout);
+
+            socket = Dgram.createSocket(
+                Net.isIPv6(target.host) ? 'udp6' : 'udp4'
+            );
+
+            socket.on('error', (err) => {
+                DONE(err);
+            });
+
+            socket.on('message', (msg) => {
+                if (isExpectedAnswer(msg, options)) {
+                    DONE();
+                }
+            });
+
+            socket.send(options.send, target.port, target.host);
+        }
+        catch (e) {
+            DONE(e);
+        }
+    });
+}
+
+/**
+ * Normalizes health check settings.
+ * 
+ * @param {boolean|vsp_contracts.HealthCheckSettings} targetSettings The settings of the target.
+ * @param {boolean|vsp_contracts.HealthCheckSettings} defaultSettings The default settings of the proxy.
+ * 
+ * @return {HealthCheckOptions|false} The options or (false) if target should not be checked.
+ */
+export function toHealthCheckOptions(targetSettings: boolean | vsp_contracts.HealthCheckSettings,
+                                     defaultSettings: boolean | vsp_contracts.HealthCheckSettings): HealthCheckOptions | false {
+    let settings = targetSettings;
+    if (vsp_helpers.isNullOrUndefined(settings)) {
+        settings = defaultSettings;
+    }
+
+    if (vsp_helpers.isNullOrUndefined(settings) || false === settings) {
+        return false;
+    }
+
+    if (true === settings) {
+        settings = {};
+    }
+
+    const TO_NUMBER = (val: any, defaultValue: number) => {
+        const NR = parseInt( vsp_helpers.toStringSafe(val).trim() );
+
+        return isNaN(NR) ? defaultValue : NR;
+    };
+
+    return {
+        expect: vsp_helpers.toBufferSafe(settings.expect, settings.encoding),
+        healthyThreshold: Math.max(1, TO_NUMBER(settings.healthyThreshold, 2)),
+        interval: Math.max(100, TO_NUMBER(settings.interval, 10000)),
+        send: vsp_helpers.toBufferSafe(settings.send, settings.encoding),
+        timeout: Math.max(1, TO_NUMBER(settings.timeout, 5000)),
+        unhealthyThreshold: Math.max(1, TO_NUMBER(settings.unhealthyThreshold, 3)),
+    };
+}
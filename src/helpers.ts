@@ -26,6 +26,7 @@ import * as FS from 'fs';
 import * as OS from 'os';
 import * as Path from 'path';
 import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
 import * as vsp_workspace from './workspace';
 import * as vsp_helpers from './workspace';
 
@@ -47,6 +48,28 @@ export interface OpenOptions {
     wait?: boolean;
 }
 
+/**
+ * A resolved proxy target.
+ */
+export interface TargetAddress {
+    /**
+     * The custom health check settings.
+     */
+    readonly healthCheck?: boolean | vsp_contracts.HealthCheckSettings;
+    /**
+     * The host address.
+     */
+    readonly host: string;
+    /**
+     * The TCP port.
+     */
+    readonly port: number;
+    /**
+     * The TLS settings or (false) if TLS is not used.
+     */
+    readonly tls: false | vsp_contracts.ProxyTargetTlsSettings;
+}
+
 /**
  * Describes a simple 'completed' action.
  * 
@@ -55,6 +78,11 @@ export interface OpenOptions {
  */
 export type SimpleCompletedAction<TResult> = (err: any, result?: TResult) => void;
 
+/**
+ * The name of the module, which can be imported by TypeScript scripts to use the types of 'contracts.ts'.
+ */
+export const CONTRACTS_MODULE = 'vscode-proxy';
+
 
 /**
  * Returns a value as array.
@@ -136,6 +164,33 @@ export function distinctArray<T>(arr: T[]): T[] {
     });
 }
 
+/**
+ * Returns the destinations for a direction value.
+ * 
+ * @param {any} direction The direction, like 'up', 'down' or 'both'. Default: 'both'
+ * 
+ * @return {vsp_contracts.ProxyDestination[]} The destinations.
+ */
+export function getDestinations(direction: any): vsp_contracts.ProxyDestination[] {
+    const DIRECTION = normalizeString(direction);
+    switch (DIRECTION) {
+        case '':
+        case 'both':
+            return [
+                vsp_contracts.ProxyDestination.ProxyToTarget,
+                vsp_contracts.ProxyDestination.TargetToProxy,
+            ];
+
+        case 'up':
+            return [ vsp_contracts.ProxyDestination.ProxyToTarget ];
+
+        case 'down':
+            return [ vsp_contracts.ProxyDestination.TargetToProxy ];
+    }
+
+    throw new Error(`Direction '${DIRECTION}' is not supported!`);
+}
+
 /**
  * Returns the End-Of-Line sequence.
  * 
@@ -167,14 +222,16 @@ export function getHostAndPort(val: any, defaultPort: number): { host: string, p
     let host: string;
     let port: number;
 
-    val = toStringSafe(val);
+    val = toStringSafe(val).trim();
     if (!isEmptyString(val)) {
-        if (val.indexOf(':') > -1) {
-            port = parseInt( val.substr(val.lastIndexOf(':') + 1)
+        const SEP = val.lastIndexOf(':');
+        if (SEP > -1 && val.indexOf(']', SEP) < 0) {
+            host = val.substr(0, SEP);
+            port = parseInt( val.substr(SEP + 1)
                                 .trim() );
         }
         else {
-            port = parseInt( val.trim() );
+            port = parseInt( val );
         }
 
         if (isNaN(port)) {
@@ -183,6 +240,12 @@ export function getHostAndPort(val: any, defaultPort: number): { host: string, p
         }
     }
 
+    // IPv6, like [::1]
+    host = toStringSafe(host).trim();
+    if (host.startsWith('[') && host.endsWith(']')) {
+        host = host.substr(1, host.length - 2);
+    }
+
     if (isEmptyString(host)) {
         host = '127.0.0.1';
     }
@@ -193,6 +256,66 @@ export function getHostAndPort(val: any, defaultPort: number): { host: string, p
     };
 }
 
+/**
+ * Resolves a proxy target.
+ * 
+ * @param {vsp_contracts.ProxyTarget} val The value.
+ * @param {number} defaultPort The default port.
+ * 
+ * @return {TargetAddress} The resolved target.
+ */
+export function getTargetAddress(val: vsp_contracts.ProxyTarget, defaultPort: number): TargetAddress {
+    let healthCheck: boolean | vsp_contracts.HealthCheckSettings;
+    let tls: boolean | vsp_contracts.ProxyTargetTlsSettings;
+    let hostAndPort: { host: string, port: number };
+
+    if (!isNullOrUndefined(val) && 'object' === typeof val) {
+        const ENTRY = <vsp_contracts.ProxyTargetEntry>val;
+
+        hostAndPort = getHostAndPort(ENTRY.host, defaultPort);
+        hostAndPort.port = getPortSafe(ENTRY.port, hostAndPort.port);
+
+        healthCheck = ENTRY.healthCheck;
+        tls = ENTRY.tls;
+    }
+    else {
+        let address = toStringSafe(val).trim();
+
+        // scheme, like tls://example.com:443
+        const SCHEME_SEP = address.indexOf('://');
+        if (SCHEME_SEP > -1) {
+            const SCHEME = normalizeString(address.substr(0, SCHEME_SEP));
+            switch (SCHEME) {
+                case 'tcp':
+                    tls = false;
+                    break;
+
+                case 'tls':
+                    tls = true;
+                    break;
+
+                default:
+                    throw new Error(`Scheme '${SCHEME}' is not supported!`);
+            }
+
+            address = address.substr(SCHEME_SEP + 3);
+        }
+
+        hostAndPort = getHostAndPort(address, defaultPort);
+    }
+
+    if (true === tls) {
+        tls = {};
+    }
+
+    return {
+        healthCheck: healthCheck,
+        host: hostAndPort.host,
+        port: hostAndPort.port,
+        tls: tls ? tls : false,
+    };
+}
+
 /**
  * Returns a "safe" TCP port value.
  * 
@@ -430,6 +553,18 @@ export function isEmptyString(val: any) {
     return '' === toStringSafe(val).trim();
 }
 
+/**
+ * Checks if a value is a promise (like) object.
+ * 
+ * @param {any} val The value to check.
+ * 
+ * @return {boolean} Is promise (like) object or not.
+ */
+export function isPromiseLike(val: any): val is PromiseLike<any> {
+    return !!val &&
+           'function' === typeof val.then;
+}
+
 /**
  * Checks if a value is (null).
  * 
@@ -485,10 +620,50 @@ export function loadModule<TModule>(file: string, useCache: boolean = false): TM
     if (!useCache) {
         delete require.cache[file];  // remove from cache
     }
+
+    if ('.ts' === Path.extname(file).toLowerCase()) {
+        return loadTypeScriptModule(file);
+    }
     
     return require(file);
 }
 
+/**
+ * Transpiles a TypeScript file with the bundled compiler and loads it as module.
+ * 
+ * @param {string} file The full path of the module's file.
+ * 
+ * @return {any} The exports of the module.
+ */
+export function loadTypeScriptModule(file: string): any {
+    const CACHED = require.cache[file];
+    if (CACHED) {
+        return CACHED.exports;
+    }
+
+    const Module = require('module');
+
+    const NEW_MODULE = new Module(file, module);
+    NEW_MODULE.filename = file;
+    NEW_MODULE.paths = Module._nodeModulePaths(Path.dirname(file));
+
+    // resolve types of that extension
+    NEW_MODULE.require = function(id: string) {
+        if (CONTRACTS_MODULE === id) {
+            return vsp_contracts;
+        }
+
+        return Module.prototype.require.apply(this, arguments);
+    };
+
+    NEW_MODULE._compile(transpileTypeScript(file), file);
+    NEW_MODULE.loaded = true;
+
+    require.cache[file] = NEW_MODULE;
+
+    return NEW_MODULE.exports;
+}
+
 /**
  * Normalizes a value as string so that is comparable.
  * 
@@ -531,6 +706,40 @@ export function toReadOnlyObject<T = any>(baseObj: T): T {
     return result;
 }
 
+/**
+ * Converts a value to a buffer.
+ * 
+ * @param {any} val The input value.
+ * @param {string} [encoding] The encoding of a string value, like 'utf8', 'hex' or 'base64'. Default: 'utf8'
+ * 
+ * @return {Buffer|false} The buffer or (false) if value is empty.
+ */
+export function toBufferSafe(val: any, encoding?: string): Buffer | false {
+    if (isNullOrUndefined(val)) {
+        return false;
+    }
+
+    if (Buffer.isBuffer(val)) {
+        return val.length > 0 ? val : false;
+    }
+
+    encoding = normalizeString(encoding);
+    if ('' === encoding) {
+        encoding = 'utf8';
+    }
+
+    let str = toStringSafe(val);
+    if ('hex' === encoding) {
+        str = str.replace(/\s/g, '');  // allow things like '0d 0a'
+    }
+
+    if ('' === str) {
+        return false;
+    }
+
+    return Buffer.from(str, encoding);
+}
+
 /**
  * Converts a value to a string that is NOT (null) or (undefined).
  * 
@@ -599,6 +808,47 @@ export function toFullPath(path: string): string {
     return Path.resolve(path);
 }
 
+/**
+ * Transpiles a TypeScript file with the bundled compiler.
+ * 
+ * @param {string} file The full path of the file.
+ * 
+ * @return {string} The JavaScript code.
+ */
+export function transpileTypeScript(file: string): string {
+    // load compiler on demand
+    const TypeScript: typeof import('typescript') = require('typescript');
+
+    const RESULT = TypeScript.transpileModule(FS.readFileSync(file, 'utf8'), {
+        compilerOptions: {
+            inlineSourceMap: true,
+            inlineSources: true,
+            module: TypeScript.ModuleKind.CommonJS,
+            target: TypeScript.ScriptTarget.ES2017,
+        },
+        fileName: file,
+        reportDiagnostics: true,
+    });
+
+    const ERRORS = (RESULT.diagnostics || []).filter(d => {
+        return TypeScript.DiagnosticCategory.Error === d.category;
+    });
+    if (ERRORS.length > 0) {
+        throw new Error(ERRORS.map(d => {
+            let pos = '';
+            if (d.file) {
+                const LINE_AND_CHAR = d.file.getLineAndCharacterOfPosition(d.start);
+
+                pos = `(${LINE_AND_CHAR.line + 1},${LINE_AND_CHAR.character + 1}): `;
+            }
+
+            return pos + TypeScript.flattenDiagnosticMessageText(d.messageText, '\n');
+        }).join('\n'));
+    }
+
+    return RESULT.outputText;
+}
+
 /**
  * Tries to dispose an object.
  * 
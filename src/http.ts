@@ -0,0 +1,756 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Moment from 'moment';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+import * as ZLib from 'zlib';
+
+
+/**
+ * Options for converting HTTP exchanges to HAR.
+ */
+export interface HarOptions {
+    /**
+     * A comment for the log, like the name of the proxy.
+     */
+    readonly comment?: string;
+    /**
+     * The version of the extension.
+     */
+    readonly version?: string;
+}
+
+/**
+ * A HTTP request with its response.
+ */
+export interface HttpExchange {
+    /**
+     * The request.
+     */
+    readonly request: HttpMessage;
+    /**
+     * The response, if there is one.
+     */
+    readonly response: HttpMessage;
+    /**
+     * The address of the server.
+     */
+    readonly serverAddress: vsp_contracts.SocketAddress;
+    /**
+     * The ID of the session.
+     */
+    readonly session: string;
+}
+
+/**
+ * A HTTP header.
+ */
+export interface HttpHeader {
+    /**
+     * The name.
+     */
+    readonly name: string;
+    /**
+     * The value.
+     */
+    readonly value: string;
+}
+
+/**
+ * A HTTP request or response.
+ */
+export interface HttpMessage {
+    /**
+     * The body without transfer encoding.
+     */
+    readonly body: Buffer;
+    /**
+     * The number of bytes of the body, as it has been transferred.
+     */
+    readonly bodySize: number;
+    /**
+     * The message has been transferred completely or not.
+     */
+    readonly complete: boolean;
+    /**
+     * The time of the last chunk of the message.
+     */
+    readonly endTime: Moment.Moment;
+    /**
+     * The headers.
+     */
+    readonly headers: HttpHeader[];
+    /**
+     * The number of bytes from the start line to the empty line after the headers.
+     */
+    readonly headersSize: number;
+    /**
+     * The version, like '1.1'.
+     */
+    readonly httpVersion: string;
+    /**
+     * The method of a request.
+     */
+    readonly method?: string;
+    /**
+     * The time of the first chunk of the message.
+     */
+    readonly startTime: Moment.Moment;
+    /**
+     * The status code of a response.
+     */
+    readonly status?: number;
+    /**
+     * The status text of a response.
+     */
+    readonly statusText?: string;
+    /**
+     * The target of a request, as it has been sent.
+     */
+    readonly url?: string;
+}
+
+interface HttpStream {
+    address: vsp_contracts.SocketAddress;
+    data: Buffer;
+    readonly offsets: { offset: number, time: Moment.Moment }[];
+}
+
+interface HttpConnection {
+    readonly downstream: HttpStream;
+    readonly session: string;
+    readonly upstream: HttpStream;
+}
+
+const REGEX_REQUEST_LINE = /^([!#$%&'*+\-.^_`|~0-9A-Za-z]+) (\S+) HTTP\/(\d\.\d)$/;
+const REGEX_STATUS_LINE = /^HTTP\/(\d\.\d) (\d{3})(?: (.*))?$/;
+
+
+/**
+ * Returns the value of a HTTP header.
+ * 
+ * @param {HttpHeader[]} headers The headers.
+ * @param {string} name The name of the header (case insensitive).
+ * 
+ * @return {string} The value or (undefined) if not found.
+ */
+export function getHttpHeader(headers: HttpHeader[], name: string): string {
+    name = vsp_helpers.normalizeString(name);
+
+    for (const H of vsp_helpers.asArray(headers)) {
+        if (vsp_helpers.normalizeString(H.name) === name) {
+            return H.value;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Parses the data of a single HTTP/1.x request.
+ * 
+ * @param {Buffer} data The data, which starts with the request line.
+ * 
+ * @return {HttpMessage} The request or (null) if the data contains no complete request line and headers.
+ */
+export function parseHttpRequest(data: Buffer): HttpMessage {
+    const PARSED = parseHttpMessage({
+        address: null,
+        data: data,
+        offsets: [],
+    }, 0, true);
+
+    return PARSED ? PARSED.message : null;
+}
+
+/**
+ * Pairs the HTTP/1.x requests and responses of a trace by session.
+ * 
+ * Keep-alive connections, pipelining, 'Content-Length' and chunked transfer encoding are supported.
+ * A session ends to be parsed, when its data is no HTTP or it switches the protocol.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} trace The trace.
+ * @param {Function} [getChunk] The custom function, that returns the chunk of an entry.
+ * 
+ * @return {HttpExchange[]} The exchanges, sorted by the start of their requests.
+ */
+export function parseHttpTrace(trace: vsp_contracts.TraceEntry[],
+                               getChunk?: (te: vsp_contracts.TraceEntry) => Buffer): HttpExchange[] {
+    const GET_CHUNK = getChunk || ((te: vsp_contracts.TraceEntry) => te.chunk);
+
+    const CONNECTIONS: { [key: string]: HttpConnection } = {};
+    const CONNECTION_LIST: HttpConnection[] = [];
+
+    vsp_helpers.asArray(trace).forEach(te => {
+        const CHUNK = GET_CHUNK(te);
+        if (!CHUNK || CHUNK.length < 1 || !te.chunkSend) {
+            return;
+        }
+
+        const SESSION = te.session ? vsp_helpers.toStringSafe(te.session.id) : '';
+        const IS_UPSTREAM = vsp_contracts.ProxyDestination.ProxyToTarget === te.destination;
+
+        // each target of a session has its own connection
+        const KEY = SESSION + "\n" + (IS_UPSTREAM ? te.targetIndex : te.sourceIndex);
+
+        let conn = CONNECTIONS[KEY];
+        if (!conn) {
+            CONNECTIONS[KEY] = conn = {
+                downstream: { address: null, data: Buffer.alloc(0), offsets: [] },
+                session: SESSION,
+                upstream: { address: null, data: Buffer.alloc(0), offsets: [] },
+            };
+            CONNECTION_LIST.push(conn);
+        }
+
+        const STREAM = IS_UPSTREAM ? conn.upstream : conn.downstream;
+        STREAM.address = IS_UPSTREAM ? te.target : te.source;
+        STREAM.offsets.push({
+            offset: STREAM.data.length,
+            time: te.time,
+        });
+        STREAM.data = Buffer.concat([ STREAM.data, CHUNK ]);
+    });
+
+    const EXCHANGES: HttpExchange[] = [];
+    CONNECTION_LIST.forEach(conn => {
+        const REQUESTS: HttpMessage[] = [];
+        let pos = 0;
+        while (pos < conn.upstream.data.length) {
+            const RESULT = parseHttpMessage(conn.upstream, pos, true);
+            if (!RESULT) {
+                break;
+            }
+
+            REQUESTS.push(RESULT.message);
+            pos = RESULT.end;
+        }
+
+        const RESPONSES: HttpMessage[] = [];
+        pos = 0;
+        while (pos < conn.downstream.data.length && RESPONSES.length < REQUESTS.length) {
+            const REQUEST = REQUESTS[RESPONSES.length];
+
+            const RESULT = parseHttpMessage(conn.downstream, pos, false, REQUEST.method);
+            if (!RESULT) {
+                break;
+            }
+
+            pos = RESULT.end;
+
+            const STATUS = RESULT.message.status;
+            if (STATUS >= 100 && STATUS < 200 && 101 !== STATUS) {
+                continue;  // interim response
+            }
+
+            RESPONSES.push(RESULT.message);
+            if (101 === STATUS) {
+                break;  // no HTTP anymore
+            }
+        }
+
+        REQUESTS.forEach((req, i) => {
+            EXCHANGES.push({
+                request: req,
+                response: RESPONSES[i] || null,
+                serverAddress: conn.upstream.address,
+                session: conn.session,
+            });
+        });
+    });
+
+    return EXCHANGES.map((e, i) => {
+        return { exchange: e, index: i };
+    }).sort((x, y) => {
+        // sorting of arrays is not stable in all Node.js versions
+        return (x.exchange.request.startTime.valueOf() - y.exchange.request.startTime.valueOf()) ||
+               (x.index - y.index);
+    }).map(x => x.exchange);
+}
+
+/**
+ * Converts HTTP exchanges to a HAR 1.2 log.
+ * 
+ * @param {HttpExchange[]} exchanges The exchanges.
+ * @param {HarOptions} [options] Custom options.
+ * 
+ * @return {any} The HAR object, which can be serialized to JSON.
+ */
+export function toHar(exchanges: HttpExchange[], options?: HarOptions): any {
+    if (!options) {
+        options = {};
+    }
+
+    const LOG: any = {
+        version: '1.2',
+        creator: {
+            name: 'vscode-proxy',
+            version: vsp_helpers.toStringSafe(options.version),
+        },
+        entries: vsp_helpers.asArray(exchanges).map(e => {
+            return toHarEntry(e);
+        }),
+    };
+
+    if (!vsp_helpers.isEmptyString(options.comment)) {
+        LOG.comment = vsp_helpers.toStringSafe(options.comment);
+    }
+
+    return {
+        log: LOG,
+    };
+}
+
+function decodeChunkedBody(data: Buffer, start: number) {
+    const CHUNKS: Buffer[] = [];
+
+    let pos = start;
+    while (true) {
+        const LINE_END = data.indexOf("\r\n", pos);
+        if (LINE_END < 0) {
+            break;
+        }
+
+        // ignore chunk extensions
+        const SIZE = parseInt(data.toString('ascii', pos, LINE_END).split(';')[0].trim(), 16);
+        if (isNaN(SIZE)) {
+            break;
+        }
+
+        if (0 === SIZE) {
+            // skip trailers
+            const TRAILERS_END = findHeadEnd(data, pos);
+            if (!TRAILERS_END) {
+                break;
+            }
+
+            return {
+                body: Buffer.concat(CHUNKS),
+                complete: true,
+                end: TRAILERS_END.end,
+            };
+        }
+
+        const CHUNK_START = LINE_END + 2;
+        CHUNKS.push(
+            data.slice(CHUNK_START, Math.min(CHUNK_START + SIZE, data.length))
+        );
+
+        pos = CHUNK_START + SIZE + 2;
+        if (pos > data.length) {
+            break;
+        }
+    }
+
+    return {
+        body: Buffer.concat(CHUNKS),
+        complete: false,
+        end: data.length,
+    };
+}
+
+function decodeContent(body: Buffer, encoding: string): Buffer | false {
+    try {
+        switch (vsp_helpers.normalizeString(encoding)) {
+            case 'gzip':
+            case 'x-gzip':
+                return ZLib.gunzipSync(body);
+
+            case 'deflate':
+                return ZLib.inflateSync(body);
+        }
+    }
+    catch (e) {
+        console.trace('[Proxy] http.decodeContent(): ' + vsp_helpers.toStringSafe(e));
+    }
+
+    return false;
+}
+
+function findHeadEnd(data: Buffer, start: number) {
+    const CRLF = data.indexOf("\r\n\r\n", start);
+    const LF = data.indexOf("\n\n", start);
+
+    if (CRLF > -1 && (LF < 0 || CRLF < LF)) {
+        return {
+            end: CRLF + 4,
+            start: CRLF,
+        };
+    }
+    if (LF > -1) {
+        return {
+            end: LF + 2,
+            start: LF,
+        };
+    }
+
+    return null;
+}
+
+function getTimeAt(stream: HttpStream, offset: number): Moment.Moment {
+    let time: Moment.Moment = stream.offsets.length > 0 ? stream.offsets[0].time : null;
+    for (const O of stream.offsets) {
+        if (O.offset > offset) {
+            break;
+        }
+
+        time = O.time;
+    }
+
+    return time;
+}
+
+function isTextMimeType(mimeType: string): boolean {
+    mimeType = vsp_helpers.normalizeString(mimeType);
+
+    return mimeType.startsWith('text/') ||
+           /(json|xml|javascript|ecmascript|x-www-form-urlencoded)/.test(mimeType);
+}
+
+function parseHttpMessage(stream: HttpStream, start: number, isRequest: boolean, requestMethod?: string) {
+    const DATA = stream.data;
+
+    const HEAD_END = findHeadEnd(DATA, start);
+    if (!HEAD_END) {
+        return null;
+    }
+
+    const LINES = DATA.toString('latin1', start, HEAD_END.start).split(/\r?\n/);
+
+    const START_LINE = isRequest ? REGEX_REQUEST_LINE.exec(LINES[0]) : REGEX_STATUS_LINE.exec(LINES[0]);
+    if (!START_LINE) {
+        return null;
+    }
+
+    const HEADERS: { name: string, value: string }[] = [];
+    LINES.slice(1).forEach(l => {
+        if (/^[ \t]/.test(l) && HEADERS.length > 0) {
+            // obsolete line folding
+            HEADERS[HEADERS.length - 1].value += ' ' + l.trim();
+            return;
+        }
+
+        const SEP = l.indexOf(':');
+        if (SEP > 0) {
+            HEADERS.push({
+                name: l.substr(0, SEP).trim(),
+                value: l.substr(SEP + 1).trim(),
+            });
+        }
+    });
+
+    const STATUS = isRequest ? undefined : parseInt(START_LINE[2]);
+    const TRANSFER_ENCODING = vsp_helpers.normalizeString(getHttpHeader(HEADERS, 'Transfer-Encoding'));
+    const CONTENT_LENGTH = parseInt(vsp_helpers.toStringSafe(getHttpHeader(HEADERS, 'Content-Length')).trim());
+
+    let body = Buffer.alloc(0);
+    let complete = true;
+    let end = HEAD_END.end;
+    if (!isRequest && (STATUS < 200 || 204 === STATUS || 304 === STATUS || 'head' === vsp_helpers.normalizeString(requestMethod))) {
+        // no body
+    }
+    else if (TRANSFER_ENCODING.split(',').map(x => x.trim()).pop() === 'chunked') {
+        const CHUNKED = decodeChunkedBody(DATA, HEAD_END.end);
+
+        body = CHUNKED.body;
+        complete = CHUNKED.complete;
+        end = CHUNKED.end;
+    }
+    else if (!isNaN(CONTENT_LENGTH)) {
+        end = Math.min(HEAD_END.end + CONTENT_LENGTH, DATA.length);
+        body = DATA.slice(HEAD_END.end, end);
+        complete = body.length === CONTENT_LENGTH;
+    }
+    else if (!isRequest) {
+        // until connection has been closed
+        end = DATA.length;
+        body = DATA.slice(HEAD_END.end, end);
+    }
+
+    const MESSAGE: HttpMessage = {
+        body: body,
+        bodySize: end - HEAD_END.end,
+        complete: complete,
+        endTime: getTimeAt(stream, Math.max(start, end - 1)),
+        headers: HEADERS,
+        headersSize: HEAD_END.end - start,
+        httpVersion: isRequest ? START_LINE[3] : START_LINE[1],
+        method: isRequest ? START_LINE[1] : undefined,
+        startTime: getTimeAt(stream, start),
+        status: STATUS,
+        statusText: isRequest ? undefined : vsp_helpers.toStringSafe(START_LINE[3]),
+        url: isRequest ? START_LINE[2] : undefined,
+    };
+
+    return {
+        end: end,
+        message: MESSAGE,
+    };
+}
+
+function parseQueryString(query: string): HttpHeader[] {
+    return vsp_helpers.toStringSafe(query).split('&').filter(p => '' !== p).map(p => {
+        const SEP = p.indexOf('=');
+
+        return {
+            name: tryDecodeURIComponent(SEP > -1 ? p.substr(0, SEP) : p),
+            value: tryDecodeURIComponent(SEP > -1 ? p.substr(SEP + 1) : ''),
+        };
+    });
+}
+
+function toHarContent(message: HttpMessage) {
+    const MIME_TYPE = vsp_helpers.toStringSafe(getHttpHeader(message.headers, 'Content-Type'));
+
+    let data = message.body;
+    let compression: number;
+
+    const ENCODING = getHttpHeader(message.headers, 'Content-Encoding');
+    if (!vsp_helpers.isEmptyString(ENCODING) && data.length > 0) {
+        const DECODED = decodeContent(data, ENCODING);
+        if (DECODED) {
+            compression = DECODED.length - data.length;
+            data = DECODED;
+        }
+    }
+
+    const CONTENT: any = {
+        size: data.length,
+        mimeType: MIME_TYPE,
+    };
+    if (!isNaN(compression)) {
+        CONTENT.compression = compression;
+    }
+
+    if (data.length > 0) {
+        if (isTextMimeType(MIME_TYPE)) {
+            CONTENT.text = data.toString('utf8');
+        }
+        else {
+            CONTENT.text = data.toString('base64');
+            CONTENT.encoding = 'base64';
+        }
+    }
+
+    return CONTENT;
+}
+
+function toHarCookies(message: HttpMessage, isRequest: boolean): any[] {
+    const COOKIES: any[] = [];
+
+    message.headers.forEach(h => {
+        const NAME = vsp_helpers.normalizeString(h.name);
+
+        if (isRequest && 'cookie' === NAME) {
+            h.value.split(';').forEach(c => {
+                const SEP = c.indexOf('=');
+                if (SEP > 0) {
+                    COOKIES.push({
+                        name: c.substr(0, SEP).trim(),
+                        value: c.substr(SEP + 1).trim(),
+                    });
+                }
+            });
+        }
+        else if (!isRequest && 'set-cookie' === NAME) {
+            const PARTS = h.value.split(';');
+
+            const SEP = PARTS[0].indexOf('=');
+            if (SEP < 1) {
+                return;
+            }
+
+            const COOKIE: any = {
+                name: PARTS[0].substr(0, SEP).trim(),
+                value: PARTS[0].substr(SEP + 1).trim(),
+            };
+
+            PARTS.slice(1).forEach(p => {
+                const ATTR_SEP = p.indexOf('=');
+                const ATTR_NAME = vsp_helpers.normalizeString(ATTR_SEP > -1 ? p.substr(0, ATTR_SEP) : p);
+                const ATTR_VALUE = ATTR_SEP > -1 ? p.substr(ATTR_SEP + 1).trim() : '';
+
+                switch (ATTR_NAME) {
+                    case 'domain':
+                    case 'path':
+                        COOKIE[ATTR_NAME] = ATTR_VALUE;
+                        break;
+
+                    case 'expires':
+                        {
+                            const EXPIRES = Moment.utc(new Date(ATTR_VALUE));
+                            if (EXPIRES.isValid()) {
+                                COOKIE.expires = EXPIRES.toISOString();
+                            }
+                        }
+                        break;
+
+                    case 'httponly':
+                        COOKIE.httpOnly = true;
+                        break;
+
+                    case 'secure':
+                        COOKIE.secure = true;
+                        break;
+                }
+            });
+
+            COOKIES.push(COOKIE);
+        }
+    });
+
+    return COOKIES;
+}
+
+function toHarEntry(exchange: HttpExchange): any {
+    const REQ = exchange.request;
+    const RES = exchange.response;
+
+    const URL = toUrl(exchange);
+    const QUERY_SEP = URL.indexOf('?');
+
+    const REQUEST: any = {
+        method: REQ.method,
+        url: URL,
+        httpVersion: `HTTP/${REQ.httpVersion}`,
+        cookies: toHarCookies(REQ, true),
+        headers: REQ.headers.map(h => ({ name: h.name, value: h.value })),
+        queryString: QUERY_SEP > -1 ? parseQueryString(URL.substr(QUERY_SEP + 1).split('#')[0]) : [],
+        headersSize: REQ.headersSize,
+        bodySize: REQ.bodySize,
+    };
+    if (REQ.body.length > 0) {
+        const MIME_TYPE = vsp_helpers.toStringSafe(getHttpHeader(REQ.headers, 'Content-Type'));
+
+        REQUEST.postData = {
+            mimeType: MIME_TYPE,
+            params: vsp_helpers.normalizeString(MIME_TYPE).startsWith('application/x-www-form-urlencoded') ?
+                parseQueryString(REQ.body.toString('utf8').split('+').join(' ')) : [],
+            text: REQ.body.toString('utf8'),
+        };
+    }
+
+    let response: any;
+    let wait = 0;
+    let receive = 0;
+    if (RES) {
+        response = {
+            status: RES.status,
+            statusText: RES.statusText,
+            httpVersion: `HTTP/${RES.httpVersion}`,
+            cookies: toHarCookies(RES, false),
+            headers: RES.headers.map(h => ({ name: h.name, value: h.value })),
+            content: toHarContent(RES),
+            redirectURL: vsp_helpers.toStringSafe(getHttpHeader(RES.headers, 'Location')),
+            headersSize: RES.headersSize,
+            bodySize: RES.bodySize,
+        };
+        if (!RES.complete) {
+            response.comment = 'Response is incomplete';
+        }
+
+        wait = Math.max(0, RES.startTime.valueOf() - REQ.endTime.valueOf());
+        receive = Math.max(0, RES.endTime.valueOf() - RES.startTime.valueOf());
+    }
+    else {
+        // like browsers do for failed requests
+        response = {
+            status: 0,
+            statusText: '',
+            httpVersion: '',
+            cookies: [],
+            headers: [],
+            content: {
+                size: 0,
+                mimeType: '',
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1,
+            comment: 'No response',
+        };
+    }
+    if (!REQ.complete) {
+        REQUEST.comment = 'Request is incomplete';
+    }
+
+    const SEND = Math.max(0, REQ.endTime.valueOf() - REQ.startTime.valueOf());
+
+    const ENTRY: any = {
+        startedDateTime: REQ.startTime.toISOString(),
+        time: SEND + wait + receive,
+        request: REQUEST,
+        response: response,
+        cache: {},
+        timings: {
+            blocked: -1,
+            dns: -1,
+            connect: -1,
+            send: SEND,
+            wait: wait,
+            receive: receive,
+            ssl: -1,
+        },
+        connection: exchange.session,
+    };
+
+    if (exchange.serverAddress) {
+        ENTRY.serverIPAddress = vsp_helpers.toStringSafe(exchange.serverAddress.addr);
+    }
+
+    return ENTRY;
+}
+
+function toUrl(exchange: HttpExchange): string {
+    const TARGET = vsp_helpers.toStringSafe(exchange.request.url);
+    if (/^https?:\/\//i.test(TARGET)) {
+        return TARGET;  // absolute form
+    }
+
+    let host = vsp_helpers.toStringSafe(getHttpHeader(exchange.request.headers, 'Host')).trim();
+    if ('' === host && exchange.serverAddress) {
+        const ADDR = vsp_helpers.toStringSafe(exchange.serverAddress.addr);
+
+        host = `${ADDR.indexOf(':') > -1 ? `[${ADDR}]` : ADDR}:${exchange.serverAddress.port}`;
+    }
+
+    if ('connect' === vsp_helpers.normalizeString(exchange.request.method)) {
+        return `https://${TARGET}`;  // authority form
+    }
+    if ('*' === TARGET) {
+        return `http://${host}`;  // asterisk form
+    }
+
+    return `http://${host}${TARGET.startsWith('/') ? '' : '/'}${TARGET}`;
+}
+
+function tryDecodeURIComponent(str: string): string {
+    try {
+        return decodeURIComponent(str);
+    }
+    catch (e) {
+        return str;
+    }
+}
@@ -0,0 +1,739 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+
+import * as Dgram from 'dgram';
+import * as Events from 'events';
+import * as Net from 'net';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+import * as vsp_http from './http';
+
+
+/**
+ * Normalized settings for mocking the targets of a proxy.
+ */
+export interface MockOptions {
+    /**
+     * The full path of the file with the recorded trace.
+     */
+    readonly file: string;
+    /**
+     * The patterns of the parts of requests, which are ignored by 'fuzzy' and 'http' matching.
+     */
+    readonly ignore: RegExp[];
+    /**
+     * The way, requests are matched, like 'exact', 'fuzzy' or 'http'.
+     */
+    readonly match: string;
+    /**
+     * The time in milliseconds, after an incomplete request is reported as unmatched.
+     */
+    readonly timeout: number;
+}
+
+interface MockExchange {
+    readonly index: number;
+    key: string;
+    request: Buffer;
+    readonly responses: Buffer[];
+    readonly session: string;
+    used: number;
+}
+
+interface MockMatch {
+    readonly exchange: MockExchange;
+    readonly length: number;
+}
+
+
+/**
+ * The default time in milliseconds, after an incomplete request is reported as unmatched.
+ */
+export const DEFAULT_TIMEOUT = 1000;
+
+const MATCH_MODES = [ 'exact', 'fuzzy', 'http' ];
+
+
+/**
+ * A target, which answers requests with the responses of a recorded trace.
+ */
+export class MockTarget extends Events.EventEmitter implements vscode.Disposable {
+    private readonly _EXCHANGES: MockExchange[];
+    private readonly _OPTIONS: MockOptions;
+    private _sockets: (MockDatagramSocket | MockSocket)[] = [];
+    private readonly _TARGET: vsp_helpers.TargetAddress;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {MockOptions} options The options.
+     * @param {vsp_contracts.TraceEntry[]} trace The recorded trace.
+     */
+    constructor(options: MockOptions, trace: vsp_contracts.TraceEntry[]) {
+        super();
+
+        this._OPTIONS = options;
+        this._EXCHANGES = toExchanges(trace);
+        this._EXCHANGES.forEach(x => {
+            x.key = this.toKey(x.request);
+        });
+
+        const FIRST_REQUEST = trace.filter(te => {
+            return te.target && vsp_contracts.ProxyDestination.ProxyToTarget === te.destination;
+        })[0];
+
+        this._TARGET = {
+            host: FIRST_REQUEST ? vsp_helpers.toStringSafe(FIRST_REQUEST.target.addr) : '127.0.0.1',
+            port: FIRST_REQUEST ? FIRST_REQUEST.target.port : 0,
+            tls: false,
+        };
+    }
+
+    /**
+     * Gets the number of recorded requests.
+     */
+    public get count(): number {
+        return this._EXCHANGES.filter(x => x.request.length > 0).length;
+    }
+
+    /**
+     * Creates a new "connection" for an UDP proxy.
+     * 
+     * @param {vsp_contracts.SocketAddress} client The address of the source / client.
+     * 
+     * @return {MockDatagramSocket} The new socket.
+     */
+    public createDatagramSocket(client: vsp_contracts.SocketAddress): MockDatagramSocket {
+        return this.registerSocket(
+            new MockDatagramSocket(this.target, this.createConversation(client, true))
+        );
+    }
+
+    private createConversation(client: vsp_contracts.SocketAddress, isDatagram: boolean) {
+        const ME = this;
+
+        return new MockConversation(isDatagram, ME.options.timeout, (data, session, isComplete) => {
+            return ME.match(data, session, isComplete);
+        }, (request) => {
+            ME.emit('unmatched',
+                    request, client);
+        });
+    }
+
+    /**
+     * Creates a new connection for a TCP proxy.
+     * 
+     * @param {vsp_contracts.SocketAddress} client The address of the source / client.
+     * 
+     * @return {MockSocket} The new socket.
+     */
+    public createSocket(client: vsp_contracts.SocketAddress): MockSocket {
+        return this.registerSocket(
+            new MockSocket(this.target, this.createConversation(client, false))
+        );
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        const SOCKETS = this._sockets;
+        this._sockets = [];
+
+        SOCKETS.forEach(s => {
+            if (s instanceof MockSocket) {
+                s.destroy();
+            }
+            else {
+                s.close();
+            }
+        });
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * Finds the recorded exchange for the data of a request.
+     * 
+     * @param {Buffer} data The data, which has been received from the proxy.
+     * @param {string} session The ID of the recorded session of the last answer.
+     * @param {boolean} isComplete The data is complete or more may follow.
+     * 
+     * @return {MockMatch|null|false} The match, (null) if more data is required or (false) if nothing matches.
+     */
+    private match(data: Buffer, session: string, isComplete: boolean): MockMatch | null | false {
+        const ME = this;
+
+        // prefer the recorded session of the last answer,
+        // then the exchange, which has been used least
+        const SELECT = (candidates: MockExchange[]) => {
+            return candidates.sort((x, y) => {
+                const X_SESSION = x.session === session ? 0 : 1;
+                const Y_SESSION = y.session === session ? 0 : 1;
+                if (X_SESSION !== Y_SESSION) {
+                    return X_SESSION - Y_SESSION;
+                }
+
+                if (x.used !== y.used) {
+                    return x.used - y.used;
+                }
+
+                return x.index - y.index;
+            })[0];
+        };
+
+        if (data.length < 1) {
+            // greeting of the target
+            const GREETINGS = ME._EXCHANGES.filter(x => x.request.length < 1);
+
+            return GREETINGS.length > 0 ? { exchange: SELECT(GREETINGS), length: 0 } : false;
+        }
+
+        const REQUESTS = ME._EXCHANGES.filter(x => x.request.length > 0);
+
+        switch (ME.options.match) {
+            case 'fuzzy':
+                {
+                    const KEY = ME.toKey(data);
+
+                    const CANDIDATES = REQUESTS.filter(x => x.key === KEY);
+                    if (CANDIDATES.length > 0) {
+                        return {
+                            exchange: SELECT(CANDIDATES),
+                            length: data.length,
+                        };
+                    }
+
+                    if (!isComplete && REQUESTS.some(x => null !== x.key && x.key.startsWith(KEY))) {
+                        return null;
+                    }
+                }
+                break;
+
+            case 'http':
+                {
+                    const REQUEST = vsp_http.parseHttpRequest(data);
+                    if (!REQUEST || !REQUEST.complete) {
+                        return isComplete ? false : null;
+                    }
+
+                    const KEY = ME.toKey(data);
+
+                    const CANDIDATES = REQUESTS.filter(x => x.key === KEY);
+                    if (CANDIDATES.length > 0) {
+                        return {
+                            exchange: SELECT(CANDIDATES),
+                            length: REQUEST.headersSize + REQUEST.bodySize,
+                        };
+                    }
+                }
+                break;
+
+            default:
+                {
+                    // the longest request, the data starts with,
+                    // so pipelined requests are answered one by one
+                    const CANDIDATES = REQUESTS.filter(x => {
+                        return data.length >= x.request.length &&
+                               data.slice(0, x.request.length).equals(x.request);
+                    });
+                    if (CANDIDATES.length > 0) {
+                        const LENGTH = Math.max(...CANDIDATES.map(x => x.request.length));
+
+                        return {
+                            exchange: SELECT(CANDIDATES.filter(x => x.request.length === LENGTH)),
+                            length: LENGTH,
+                        };
+                    }
+
+                    if (!isComplete && REQUESTS.some(x => x.request.slice(0, data.length).equals(data))) {
+                        return null;
+                    }
+                }
+                break;
+        }
+
+        return false;
+    }
+
+    /**
+     * Gets the options.
+     */
+    public get options(): MockOptions {
+        return this._OPTIONS;
+    }
+
+    private registerSocket<TSocket extends MockDatagramSocket | MockSocket>(socket: TSocket): TSocket {
+        this._sockets.push(socket);
+
+        socket.once('close', () => {
+            this._sockets = this._sockets.filter(s => s !== socket);
+        });
+
+        return socket;
+    }
+
+    /**
+     * Gets the address of the recorded target.
+     */
+    public get target(): vsp_helpers.TargetAddress {
+        return this._TARGET;
+    }
+
+    private toKey(request: Buffer): string {
+        const NORMALIZE = (str: string) => {
+            this.options.ignore.forEach(r => {
+                str = str.replace(r, '');
+            });
+
+            return str.replace(/\s+/g, ' ').trim();
+        };
+
+        switch (this.options.match) {
+            case 'fuzzy':
+                return NORMALIZE(request.toString('latin1'));
+
+            case 'http':
+                {
+                    const HTTP_REQUEST = vsp_http.parseHttpRequest(request);
+                    if (HTTP_REQUEST) {
+                        // method, URL and body only
+                        return `${HTTP_REQUEST.method.toUpperCase()} ${NORMALIZE(HTTP_REQUEST.url)}\n` +
+                               NORMALIZE(HTTP_REQUEST.body.toString('latin1'));
+                    }
+                }
+                break;
+        }
+
+        return null;
+    }
+}
+
+/**
+ * Collects the data of requests of a connection and answers them.
+ */
+export class MockConversation {
+    /**
+     * Sends an answer to the proxy.
+     */
+    public answer: (chunk: Buffer) => void;
+    private _buffer = Buffer.alloc(0);
+    private readonly _IS_DATAGRAM: boolean;
+    private _isDisposed = false;
+    private readonly _MATCH: (data: Buffer, session: string, isComplete: boolean) => MockMatch | null | false;
+    private readonly _ON_UNMATCHED: (request: Buffer) => void;
+    private _session: string;
+    private _timeout: NodeJS.Timer;
+    private readonly _TIMEOUT: number;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {boolean} isDatagram Each chunk is a complete request or not.
+     * @param {number} timeout The time in milliseconds, after an incomplete request is reported as unmatched.
+     * @param {Function} match The function, which finds the recorded exchange for a request.
+     * @param {Function} onUnmatched The function, which reports a request without recorded exchange.
+     */
+    constructor(isDatagram: boolean, timeout: number,
+                match: (data: Buffer, session: string, isComplete: boolean) => MockMatch | null | false,
+                onUnmatched: (request: Buffer) => void) {
+        this._IS_DATAGRAM = isDatagram;
+        this._TIMEOUT = timeout;
+        this._MATCH = match;
+        this._ON_UNMATCHED = onUnmatched;
+    }
+
+    private clearTimeout() {
+        if (this._timeout) {
+            clearTimeout(this._timeout);
+        }
+
+        this._timeout = null;
+    }
+
+    /**
+     * Stops answering.
+     */
+    public dispose() {
+        this._isDisposed = true;
+
+        this.clearTimeout();
+    }
+
+    /**
+     * Sends the greeting of a recorded target, if available.
+     */
+    public greet() {
+        const MATCH = this._MATCH(Buffer.alloc(0), this._session, true);
+        if (MATCH) {
+            this.send(MATCH.exchange);
+        }
+    }
+
+    /**
+     * Handles the data of a request.
+     * 
+     * @param {Buffer} chunk The data.
+     */
+    public receive(chunk: Buffer) {
+        const ME = this;
+
+        if (ME._isDisposed) {
+            return;
+        }
+
+        ME.clearTimeout();
+
+        if (ME._IS_DATAGRAM) {
+            ME._buffer = chunk;
+        }
+        else {
+            ME._buffer = Buffer.concat([ ME._buffer, chunk ]);
+        }
+
+        while (ME._buffer.length > 0) {
+            const MATCH = ME._MATCH(ME._buffer, ME._session, ME._IS_DATAGRAM);
+
+            if (null === MATCH) {
+                // wait for more data
+                ME._timeout = setTimeout(() => {
+                    ME._timeout = null;
+
+                    ME.unmatched();
+                }, ME._TIMEOUT);
+
+                break;
+            }
+
+            if (false === MATCH) {
+                ME.unmatched();
+                break;
+            }
+
+            ME._buffer = ME._buffer.slice(MATCH.length);
+
+            ME.send(MATCH.exchange);
+        }
+    }
+
+    private send(exchange: MockExchange) {
+        const ME = this;
+
+        ++exchange.used;
+        ME._session = exchange.session;
+
+        exchange.responses.forEach(chunk => {
+            setImmediate(() => {
+                if (!ME._isDisposed) {
+                    ME.answer(chunk);
+                }
+            });
+        });
+    }
+
+    private unmatched() {
+        const REQUEST = this._buffer;
+        this._buffer = Buffer.alloc(0);
+
+        if (REQUEST.length > 0 && !this._isDisposed) {
+            this._ON_UNMATCHED(REQUEST);
+        }
+    }
+}
+
+/**
+ * A socket, which replaces the UDP socket to a target.
+ */
+export class MockDatagramSocket extends Events.EventEmitter {
+    private readonly _CONVERSATION: MockConversation;
+    private _isClosed = false;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vsp_helpers.TargetAddress} target The address of the recorded target.
+     * @param {MockConversation} conversation The underlying conversation.
+     */
+    constructor(target: vsp_helpers.TargetAddress, conversation: MockConversation) {
+        super();
+
+        this._CONVERSATION = conversation;
+
+        conversation.answer = (chunk) => {
+            if (this._isClosed) {
+                return;
+            }
+
+            const RINFO: Dgram.RemoteInfo = {
+                address: target.host,
+                family: Net.isIPv6(target.host) ? 'IPv6' : 'IPv4',
+                port: target.port,
+            };
+
+            this.emit('message',
+                      chunk, RINFO);
+        };
+    }
+
+    /**
+     * Closes the socket.
+     */
+    public close() {
+        if (this._isClosed) {
+            return;
+        }
+        this._isClosed = true;
+
+        this._CONVERSATION.dispose();
+
+        process.nextTick(() => {
+            this.emit('close');
+        });
+    }
+
+    /**
+     * Sends a datagram to the mocked target.
+     * 
+     * @param {Buffer} chunk The datagram.
+     */
+    public send(chunk: Buffer, ...args: any[]) {
+        if (!this._isClosed) {
+            this._CONVERSATION.receive(chunk);
+        }
+    }
+}
+
+/**
+ * A socket, which replaces the TCP connection to a target.
+ */
+export class MockSocket extends Events.EventEmitter {
+    private readonly _CONVERSATION: MockConversation;
+    private _isClosed = false;
+    private readonly _TARGET: vsp_helpers.TargetAddress;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vsp_helpers.TargetAddress} target The address of the recorded target.
+     * @param {MockConversation} conversation The underlying conversation.
+     */
+    constructor(target: vsp_helpers.TargetAddress, conversation: MockConversation) {
+        super();
+
+        this._CONVERSATION = conversation;
+        this._TARGET = target;
+
+        conversation.answer = (chunk) => {
+            if (!this._isClosed) {
+                this.emit('data', chunk);
+            }
+        };
+
+        process.nextTick(() => {
+            if (this._isClosed) {
+                return;
+            }
+
+            this.emit('connect');
+
+            conversation.greet();
+        });
+    }
+
+    /**
+     * Closes the connection immediately.
+     */
+    public destroy() {
+        this.end();
+    }
+
+    /**
+     * Closes the connection.
+     */
+    public end() {
+        if (this._isClosed) {
+            return;
+        }
+        this._isClosed = true;
+
+        this._CONVERSATION.dispose();
+
+        process.nextTick(() => {
+            this.emit('close', false);
+        });
+    }
+
+    /**
+     * Does nothing, because answers are queued by the proxy.
+     */
+    public pause() {
+        return this;
+    }
+
+    /**
+     * Gets the address of the recorded target.
+     */
+    public get remoteAddress(): string {
+        return this._TARGET.host;
+    }
+
+    /**
+     * Gets the port of the recorded target.
+     */
+    public get remotePort(): number {
+        return this._TARGET.port;
+    }
+
+    /**
+     * Does nothing, because answers are queued by the proxy.
+     */
+    public resume() {
+        return this;
+    }
+
+    /**
+     * Sends data to the mocked target.
+     * 
+     * @param {Buffer} chunk The data.
+     * 
+     * @return {boolean} Always (true).
+     */
+    public write(chunk: Buffer) {
+        if (!this._isClosed) {
+            this._CONVERSATION.receive(chunk);
+        }
+
+        return true;
+    }
+}
+
+
+function toExchanges(trace: vsp_contracts.TraceEntry[]) {
+    const EXCHANGES: MockExchange[] = [];
+    const SESSIONS: { [id: string]: { current: MockExchange, target: number } } = {};
+
+    trace.filter(te => te.session && !te.error).forEach(te => {
+        let session = SESSIONS[te.session.id];
+        if (!session) {
+            SESSIONS[te.session.id] = session = {
+                current: null,
+                target: undefined,
+            };
+        }
+
+        const NEW_EXCHANGE = (): MockExchange => {
+            return {
+                index: EXCHANGES.length,
+                key: null,
+                request: Buffer.alloc(0),
+                responses: [],
+                session: te.session.id,
+                used: 0,
+            };
+        };
+
+        if (vsp_contracts.ProxyDestination.ProxyToTarget === te.destination) {
+            if (!te.chunkSend || !te.chunk) {
+                return;  // has not reached the target
+            }
+
+            if (vsp_helpers.isUndefined(session.target)) {
+                session.target = te.targetIndex;
+            }
+            if (te.targetIndex !== session.target) {
+                return;  // mirrored
+            }
+
+            if (!session.current || session.current.responses.length > 0) {
+                EXCHANGES.push(session.current = NEW_EXCHANGE());
+            }
+
+            session.current.request = Buffer.concat([ session.current.request, te.chunk ]);
+        }
+        else {
+            // as it has been sent by the target
+            const CHUNK = te.originalChunk || te.chunk;
+            if (!CHUNK) {
+                return;
+            }
+
+            if (vsp_helpers.isUndefined(session.target)) {
+                session.target = te.sourceIndex;
+            }
+            if (te.sourceIndex !== session.target) {
+                return;  // mirrored
+            }
+
+            if (!session.current) {
+                EXCHANGES.push(session.current = NEW_EXCHANGE());  // greeting
+            }
+
+            session.current.responses.push(CHUNK);
+        }
+    });
+
+    return EXCHANGES;
+}
+
+/**
+ * Converts mock settings to options.
+ * 
+ * @param {string|vsp_contracts.MockSettings} settings The settings.
+ * 
+ * @return {MockOptions|false} The options or (false) if targets are not mocked.
+ */
+export function toMockOptions(settings: string | vsp_contracts.MockSettings): MockOptions | false {
+    let file: string;
+    let ignore: string[] = [];
+    let match: string;
+    let timeout: number;
+    if (settings && 'object' === typeof settings) {
+        file = settings.file;
+        ignore = vsp_helpers.asArray(settings.ignore).map(x => vsp_helpers.toStringSafe(x))
+                                                     .filter(x => '' !== x);
+        match = vsp_helpers.normalizeString(settings.match);
+        timeout = parseInt( vsp_helpers.toStringSafe(settings.timeout).trim() );
+    }
+    else {
+        file = vsp_helpers.toStringSafe(settings);
+    }
+
+    if (vsp_helpers.isEmptyString(file)) {
+        return false;
+    }
+
+    if ('' === match || vsp_helpers.isNullOrUndefined(match)) {
+        match = 'exact';
+    }
+    if (MATCH_MODES.indexOf(match) < 0) {
+        throw new Error(`Match mode '${match}' is not supported!`);
+    }
+
+    return {
+        file: vsp_helpers.toFullPath(file),
+        ignore: ignore.map(x => new RegExp(x, 'g')),
+        match: match,
+        timeout: isNaN(timeout) || timeout < 0 ? DEFAULT_TIMEOUT : timeout,
+    };
+}
@@ -0,0 +1,1008 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Moment from 'moment';
+import * as Net from 'net';
+import * as UUID from 'uuid';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * Options for converting a trace to PCAPNG.
+ */
+export interface PcapNgOptions {
+    /**
+     * A description of the capture interface, like the name of the proxy.
+     */
+    readonly description?: string;
+    /**
+     * The protocol of the proxy, like 'tcp' or 'udp'.
+     */
+    readonly protocol: string;
+}
+
+/**
+ * A trace, which has been read from a PCAP or PCAPNG file.
+ */
+export interface PcapTrace {
+    /**
+     * The protocol of most of the entries, like 'tcp' or 'udp'.
+     */
+    readonly protocol: string;
+    /**
+     * The trace.
+     */
+    readonly trace: vsp_contracts.TraceEntry[];
+}
+
+interface CapturedFile {
+    /**
+     * The host names of the name resolution blocks, by IP address.
+     */
+    readonly names: { [addr: string]: string };
+    readonly packets: CapturedPacket[];
+}
+
+interface CapturedPacket {
+    readonly data: Buffer;
+    readonly linkType: number;
+    readonly time: number;
+}
+
+interface CapturedFlow {
+    readonly client: string;
+    readonly nextSeq: { [endpoint: string]: number };
+    readonly session: { id: string, time: Moment.Moment };
+}
+
+interface Endpoint {
+    readonly addr: Buffer;
+    readonly port: number;
+}
+
+interface Packet {
+    readonly block: Buffer;
+    readonly index: number;
+    readonly time: number;
+}
+
+interface TcpFlow {
+    readonly client: Endpoint;
+    clientSeq: number;
+    lastTime: number;
+    readonly server: Endpoint;
+    serverSeq: number;
+}
+
+const BLOCK_ENHANCED_PACKET = 0x00000006;
+const BLOCK_INTERFACE_DESCRIPTION = 0x00000001;
+const BLOCK_NAME_RESOLUTION = 0x00000004;
+const BLOCK_PACKET = 0x00000002;
+const BLOCK_SECTION_HEADER = 0x0A0D0D0A;
+const BLOCK_SIMPLE_PACKET = 0x00000003;
+const BYTE_ORDER_MAGIC = 0x1A2B3C4D;
+/**
+ * Raw IPv4 / IPv6 packets without link layer.
+ */
+const LINKTYPE_RAW = 101;
+const LINKTYPE_ETHERNET = 1;
+const LINKTYPE_IPV4 = 228;
+const LINKTYPE_IPV6 = 229;
+const LINKTYPE_LINUX_SLL = 113;
+const LINKTYPE_LINUX_SLL2 = 276;
+const LINKTYPE_NULL = 0;
+/**
+ * Keeps the synthesized IP packets below 64 KB.
+ */
+const MAX_SEGMENT_SIZE = 65000;
+const OPTION_COMMENT = 1;
+const OPTION_IF_DESCRIPTION = 3;
+const OPTION_IF_NAME = 2;
+const OPTION_IF_TSRESOL = 9;
+const PCAP_MAGIC_MICROSECONDS = 0xA1B2C3D4;
+const PCAP_MAGIC_NANOSECONDS = 0xA1B23C4D;
+const OPTION_SHB_USERAPPL = 4;
+const PROTOCOL_TCP = 6;
+const PROTOCOL_UDP = 17;
+const RECORD_IPV4 = 1;
+const RECORD_IPV6 = 2;
+const TCP_ACK = 0x10;
+const TCP_FIN = 0x01;
+const TCP_PSH = 0x08;
+const TCP_SYN = 0x02;
+
+
+/**
+ * Reads the TCP and UDP packets of a PCAP or PCAPNG file as trace.
+ * 
+ * Each TCP connection and each pair of UDP endpoints becomes a session. The sender of
+ * the first SYN or datagram is handled as source / client. Packets without payload,
+ * retransmissions and IP fragments are ignored.
+ * 
+ * @param {Buffer} data The data of the file.
+ * 
+ * @return {PcapTrace} The trace.
+ */
+export function fromPcap(data: Buffer): PcapTrace {
+    const FLOWS: { [key: string]: CapturedFlow } = {};
+    const TRACE: vsp_contracts.TraceEntry[] = [];
+    let udpEntries = 0;
+
+    const FILE = readPackets(data);
+
+    // host names, like the ones of a file from 'toPcapNg()'
+    const TO_ADDRESS = (addr: Buffer) => {
+        const IP = formatIPAddress(addr);
+
+        return FILE.names[IP] || IP;
+    };
+
+    FILE.packets.forEach(p => {
+        const IP = parseIPPacket(toIPPacket(p.data, p.linkType));
+        if (!IP || (PROTOCOL_TCP !== IP.protocol && PROTOCOL_UDP !== IP.protocol) || IP.payload.length < 8) {
+            return;
+        }
+
+        const IS_TCP = PROTOCOL_TCP === IP.protocol;
+
+        const SOURCE: vsp_contracts.SocketAddress = {
+            addr: TO_ADDRESS(IP.src),
+            port: IP.payload.readUInt16BE(0),
+        };
+        const TARGET: vsp_contracts.SocketAddress = {
+            addr: TO_ADDRESS(IP.dst),
+            port: IP.payload.readUInt16BE(2),
+        };
+        const FROM = `${SOURCE.addr}|${SOURCE.port}`;
+        const TO = `${TARGET.addr}|${TARGET.port}`;
+
+        let payload: Buffer;
+        let flags = 0;
+        let seq = 0;
+        if (IS_TCP) {
+            if (IP.payload.length < 20) {
+                return;
+            }
+
+            seq = IP.payload.readUInt32BE(4);
+            flags = IP.payload[13];
+            payload = IP.payload.slice((IP.payload[12] >> 4) * 4);
+        }
+        else {
+            payload = IP.payload.slice(8, Math.min(IP.payload.readUInt16BE(4), IP.payload.length));
+        }
+
+        const KEY = (IS_TCP ? 'tcp' : 'udp') + "\n" + [ FROM, TO ].sort().join("\n");
+        const TIME = Moment.utc(Math.floor(p.time / 1000));
+
+        let flow = FLOWS[KEY];
+
+        const IS_SYN = IS_TCP && (flags & TCP_SYN);
+        if (IS_SYN && flow && !(flags & TCP_ACK)) {
+            // new connection or retransmitted SYN
+            if (flow.nextSeq[FROM] !== ((seq + 1) % 0x100000000)) {
+                flow = null;
+            }
+        }
+
+        if (!flow) {
+            FLOWS[KEY] = flow = {
+                // SYN/ACK is sent by the server
+                client: IS_SYN && (flags & TCP_ACK) ? TO : FROM,
+                nextSeq: {},
+                session: {
+                    id: UUID.v4(),
+                    time: TIME,
+                },
+            };
+        }
+
+        if (IS_TCP) {
+            const NEXT = flow.nextSeq[FROM];
+            if (!isNaN(NEXT) && !IS_SYN) {
+                // skip data, which has already been sent
+                const OVERLAP = (NEXT - seq) | 0;
+                if (OVERLAP > 0) {
+                    payload = payload.slice(Math.min(OVERLAP, payload.length));
+                    seq = NEXT;
+                }
+            }
+
+            flow.nextSeq[FROM] = (seq + payload.length + (IS_SYN ? 1 : 0)) % 0x100000000;
+        }
+
+        if (payload.length < 1) {
+            return;
+        }
+
+        const FROM_CLIENT = flow.client === FROM;
+
+        TRACE.push({
+            chunk: payload,
+            chunkSend: true,
+            destination: FROM_CLIENT ? vsp_contracts.ProxyDestination.ProxyToTarget
+                                     : vsp_contracts.ProxyDestination.TargetToProxy,
+            session: flow.session,
+            source: SOURCE,
+            sourceIndex: 0,
+            target: TARGET,
+            targetIndex: 0,
+            time: TIME,
+        });
+
+        if (!IS_TCP) {
+            ++udpEntries;
+        }
+    });
+
+    return {
+        protocol: udpEntries > TRACE.length / 2 ? 'udp' : 'tcp',
+        trace: TRACE,
+    };
+}
+
+/**
+ * Checks if data is the content of a PCAP or PCAPNG file.
+ * 
+ * @param {Buffer} data The data.
+ * 
+ * @return {boolean} Is PCAP / PCAPNG or not.
+ */
+export function isPcap(data: Buffer): boolean {
+    if (!data || data.length < 4) {
+        return false;
+    }
+
+    return [ BLOCK_SECTION_HEADER, PCAP_MAGIC_MICROSECONDS, PCAP_MAGIC_NANOSECONDS ].some(m => {
+        return m === data.readUInt32LE(0) || m === data.readUInt32BE(0);
+    });
+}
+
+/**
+ * Converts a trace to a PCAPNG file with synthesized IP and TCP / UDP headers.
+ * 
+ * Each session becomes its own TCP stream with a handshake before its first
+ * and a close after its last chunk. Host names, which are no IP addresses,
+ * get addresses from the 198.18.0.0/15 range, which are resolved to the names in the file.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} trace The trace.
+ * @param {PcapNgOptions} options The options.
+ * 
+ * @return {Buffer} The data of the file.
+ */
+export function toPcapNg(trace: vsp_contracts.TraceEntry[], options: PcapNgOptions): Buffer {
+    const IS_UDP = 'udp' === vsp_helpers.normalizeString(options.protocol);
+
+    const FLOWS: { [key: string]: TcpFlow } = {};
+    const FLOW_LIST: TcpFlow[] = [];
+    const HOST_NAMES: { addr: Buffer, name: string }[] = [];
+    const HOST_ADDRESSES: { [name: string]: Buffer } = {};
+    const PACKETS: Packet[] = [];
+    let ipId = 0;
+
+    const TO_ENDPOINT = (address: vsp_contracts.SocketAddress): Endpoint => {
+        const ADDR = address ? vsp_helpers.toStringSafe(address.addr).trim() : '';
+        const PORT = address ? parseInt(vsp_helpers.toStringSafe(address.port).trim()) : NaN;
+
+        let ip = parseIPAddress(ADDR);
+        if (!ip) {
+            const NAME = '' === ADDR ? 'unknown' : ADDR;
+
+            ip = HOST_ADDRESSES[NAME];
+            if (!ip) {
+                const INDEX = HOST_NAMES.length + 1;
+
+                ip = HOST_ADDRESSES[NAME] = Buffer.from([
+                    198, 18 + ((INDEX >> 16) & 0x01), (INDEX >> 8) & 0xFF, INDEX & 0xFF,
+                ]);
+                HOST_NAMES.push({
+                    addr: ip,
+                    name: NAME,
+                });
+            }
+        }
+
+        return {
+            addr: ip,
+            port: isNaN(PORT) ? 0 : (PORT & 0xFFFF),
+        };
+    };
+
+    const ADD_PACKET = (time: number, from: Endpoint, to: Endpoint, transport: Buffer, comment?: string) => {
+        let src = from.addr;
+        let dst = to.addr;
+        if (src.length !== dst.length) {
+            // both addresses need the same family
+            src = toIPv6Address(src);
+            dst = toIPv6Address(dst);
+        }
+
+        const DATA = createIPPacket(src, dst, IS_UDP ? PROTOCOL_UDP : PROTOCOL_TCP, transport, ipId++);
+
+        const OPTIONS: { code: number, value: Buffer }[] = [];
+        if (!vsp_helpers.isEmptyString(comment)) {
+            OPTIONS.push({
+                code: OPTION_COMMENT,
+                value: Buffer.from(comment, 'utf8'),
+            });
+        }
+
+        const HEADER = Buffer.alloc(20);
+        HEADER.writeUInt32LE(0, 0);  // interface
+        HEADER.writeUInt32LE(Math.floor(time / 0x100000000), 4);
+        HEADER.writeUInt32LE(time % 0x100000000, 8);
+        HEADER.writeUInt32LE(DATA.length, 12);
+        HEADER.writeUInt32LE(DATA.length, 16);
+
+        PACKETS.push({
+            block: createBlock(BLOCK_ENHANCED_PACKET, Buffer.concat([
+                HEADER, pad(DATA), createOptions(OPTIONS),
+            ])),
+            index: PACKETS.length,
+            time: time,
+        });
+    };
+
+    const ADD_TCP_PACKET = (time: number, flow: TcpFlow, fromClient: boolean, flags: number, payload: Buffer, comment?: string) => {
+        const SEQ = fromClient ? flow.clientSeq : flow.serverSeq;
+        const ACK = fromClient ? flow.serverSeq : flow.clientSeq;
+
+        ADD_PACKET(
+            time,
+            fromClient ? flow.client : flow.server,
+            fromClient ? flow.server : flow.client,
+            createTcpSegment(
+                fromClient ? flow.client.port : flow.server.port,
+                fromClient ? flow.server.port : flow.client.port,
+                SEQ, (flags & TCP_ACK) ? ACK : 0, flags, payload,
+            ),
+            comment,
+        );
+
+        let length = payload.length;
+        if (flags & (TCP_SYN | TCP_FIN)) {
+            ++length;
+        }
+
+        if (fromClient) {
+            flow.clientSeq = (flow.clientSeq + length) % 0x100000000;
+        }
+        else {
+            flow.serverSeq = (flow.serverSeq + length) % 0x100000000;
+        }
+    };
+
+    vsp_helpers.asArray(trace).forEach(entry => {
+        const TIME = toMicroseconds(entry.time);
+        const FROM = TO_ENDPOINT(entry.source);
+        const TO = TO_ENDPOINT(entry.target);
+        const SEGMENTS = splitChunk(entry.chunk);
+        const COMMENT = getComment(entry);
+
+        if (IS_UDP) {
+            SEGMENTS.forEach((s, i) => {
+                ADD_PACKET(TIME, FROM, TO, createUdpDatagram(FROM.port, TO.port, s), 0 === i ? COMMENT : undefined);
+            });
+
+            return;
+        }
+
+        const FROM_CLIENT = vsp_contracts.ProxyDestination.ProxyToTarget === entry.destination;
+        const CLIENT = FROM_CLIENT ? FROM : TO;
+        const SERVER = FROM_CLIENT ? TO : FROM;
+
+        const KEY = [
+            entry.session ? entry.session.id : '',
+            CLIENT.addr.toString('hex'), CLIENT.port,
+            SERVER.addr.toString('hex'), SERVER.port,
+        ].join("\n");
+
+        let flow = FLOWS[KEY];
+        if (!flow) {
+            FLOWS[KEY] = flow = {
+                client: CLIENT,
+                clientSeq: 0,
+                lastTime: TIME,
+                server: SERVER,
+                serverSeq: 0,
+            };
+            FLOW_LIST.push(flow);
+
+            // handshake
+            ADD_TCP_PACKET(TIME, flow, true, TCP_SYN, Buffer.alloc(0));
+            ADD_TCP_PACKET(TIME, flow, false, TCP_SYN | TCP_ACK, Buffer.alloc(0));
+            ADD_TCP_PACKET(TIME, flow, true, TCP_ACK, Buffer.alloc(0));
+        }
+
+        flow.lastTime = Math.max(flow.lastTime, TIME);
+
+        if (SEGMENTS.length < 1) {
+            if (!vsp_helpers.isEmptyString(COMMENT)) {
+                // keep fault or error visible
+                ADD_TCP_PACKET(TIME, flow, FROM_CLIENT, TCP_ACK, Buffer.alloc(0), COMMENT);
+            }
+        }
+        else {
+            SEGMENTS.forEach((s, i) => {
+                ADD_TCP_PACKET(TIME, flow, FROM_CLIENT, TCP_PSH | TCP_ACK, s, 0 === i ? COMMENT : undefined);
+            });
+        }
+    });
+
+    FLOW_LIST.forEach(flow => {
+        ADD_TCP_PACKET(flow.lastTime, flow, true, TCP_FIN | TCP_ACK, Buffer.alloc(0));
+        ADD_TCP_PACKET(flow.lastTime, flow, false, TCP_FIN | TCP_ACK, Buffer.alloc(0));
+        ADD_TCP_PACKET(flow.lastTime, flow, true, TCP_ACK, Buffer.alloc(0));
+    });
+
+    const BLOCKS: Buffer[] = [
+        createSectionHeaderBlock(),
+        createInterfaceDescriptionBlock(options.description),
+    ];
+
+    if (HOST_NAMES.length > 0) {
+        BLOCKS.push(
+            createNameResolutionBlock(HOST_NAMES)
+        );
+    }
+
+    // sorting of arrays is not stable in all Node.js versions
+    PACKETS.sort((x, y) => {
+        return (x.time - y.time) || (x.index - y.index);
+    }).forEach(p => {
+        BLOCKS.push(p.block);
+    });
+
+    return Buffer.concat(BLOCKS);
+}
+
+function createBlock(type: number, body: Buffer): Buffer {
+    const LENGTH = 12 + body.length;
+
+    const BLOCK = Buffer.alloc(LENGTH);
+    BLOCK.writeUInt32LE(type, 0);
+    BLOCK.writeUInt32LE(LENGTH, 4);
+    body.copy(BLOCK, 8);
+    BLOCK.writeUInt32LE(LENGTH, LENGTH - 4);
+
+    return BLOCK;
+}
+
+function createIPPacket(src: Buffer, dst: Buffer, protocol: number, transport: Buffer, id: number): Buffer {
+    // checksum of TCP / UDP includes a pseudo header
+    const CHECKSUM_OFFSET = PROTOCOL_TCP === protocol ? 16 : 6;
+    const LENGTH = Buffer.alloc(4);
+    LENGTH.writeUInt32BE(transport.length, 0);
+
+    let checksum = getChecksum([
+        src, dst, Buffer.from([ 0, 0, 0, protocol ]), LENGTH, transport,
+    ]);
+    if (0 === checksum && PROTOCOL_UDP === protocol) {
+        checksum = 0xFFFF;
+    }
+    transport.writeUInt16BE(checksum, CHECKSUM_OFFSET);
+
+    let header: Buffer;
+    if (4 === src.length) {
+        header = Buffer.alloc(20);
+        header.writeUInt8(0x45, 0);  // version 4, 5 words
+        header.writeUInt16BE(header.length + transport.length, 2);
+        header.writeUInt16BE(id & 0xFFFF, 4);
+        header.writeUInt16BE(0x4000, 6);  // don't fragment
+        header.writeUInt8(64, 8);  // TTL
+        header.writeUInt8(protocol, 9);
+        src.copy(header, 12);
+        dst.copy(header, 16);
+        header.writeUInt16BE(getChecksum([ header ]), 10);
+    }
+    else {
+        header = Buffer.alloc(40);
+        header.writeUInt32BE(0x60000000, 0);  // version 6
+        header.writeUInt16BE(transport.length, 4);
+        header.writeUInt8(protocol, 6);
+        header.writeUInt8(64, 7);  // hop limit
+        src.copy(header, 8);
+        dst.copy(header, 24);
+    }
+
+    return Buffer.concat([ header, transport ]);
+}
+
+function createInterfaceDescriptionBlock(description: string): Buffer {
+    const HEADER = Buffer.alloc(8);
+    HEADER.writeUInt16LE(LINKTYPE_RAW, 0);
+    HEADER.writeUInt32LE(0, 4);  // no snap length
+
+    const OPTIONS = [{
+        code: OPTION_IF_NAME,
+        value: Buffer.from('vscode-proxy', 'utf8'),
+    }];
+    if (!vsp_helpers.isEmptyString(description)) {
+        OPTIONS.push({
+            code: OPTION_IF_DESCRIPTION,
+            value: Buffer.from(vsp_helpers.toStringSafe(description), 'utf8'),
+        });
+    }
+
+    return createBlock(BLOCK_INTERFACE_DESCRIPTION, Buffer.concat([
+        HEADER, createOptions(OPTIONS),
+    ]));
+}
+
+function createNameResolutionBlock(names: { addr: Buffer, name: string }[]): Buffer {
+    const RECORDS: Buffer[] = names.map(n => {
+        const VALUE = Buffer.concat([
+            n.addr, Buffer.from(n.name + "\0", 'utf8'),
+        ]);
+
+        const HEADER = Buffer.alloc(4);
+        HEADER.writeUInt16LE(4 === n.addr.length ? RECORD_IPV4 : RECORD_IPV6, 0);
+        HEADER.writeUInt16LE(VALUE.length, 2);
+
+        return Buffer.concat([ HEADER, pad(VALUE) ]);
+    });
+    RECORDS.push(Buffer.alloc(4));  // end of records
+
+    return createBlock(BLOCK_NAME_RESOLUTION, Buffer.concat(RECORDS));
+}
+
+function createOptions(options: { code: number, value: Buffer }[]): Buffer {
+    if (options.length < 1) {
+        return Buffer.alloc(0);
+    }
+
+    const BUFFERS: Buffer[] = options.map(o => {
+        const HEADER = Buffer.alloc(4);
+        HEADER.writeUInt16LE(o.code, 0);
+        HEADER.writeUInt16LE(o.value.length, 2);
+
+        return Buffer.concat([ HEADER, pad(o.value) ]);
+    });
+    BUFFERS.push(Buffer.alloc(4));  // end of options
+
+    return Buffer.concat(BUFFERS);
+}
+
+function createSectionHeaderBlock(): Buffer {
+    const HEADER = Buffer.alloc(16);
+    HEADER.writeUInt32LE(BYTE_ORDER_MAGIC, 0);
+    HEADER.writeUInt16LE(1, 4);  // major version
+    HEADER.writeUInt16LE(0, 6);  // minor version
+    HEADER.writeUInt32LE(0xFFFFFFFF, 8);  // section length
+    HEADER.writeUInt32LE(0xFFFFFFFF, 12);  // is not specified
+
+    return createBlock(BLOCK_SECTION_HEADER, Buffer.concat([
+        HEADER,
+        createOptions([{
+            code: OPTION_SHB_USERAPPL,
+            value: Buffer.from('vscode-proxy', 'utf8'),
+        }]),
+    ]));
+}
+
+function createTcpSegment(srcPort: number, dstPort: number, seq: number, ack: number, flags: number, payload: Buffer): Buffer {
+    const SEGMENT = Buffer.alloc(20 + payload.length);
+    SEGMENT.writeUInt16BE(srcPort, 0);
+    SEGMENT.writeUInt16BE(dstPort, 2);
+    SEGMENT.writeUInt32BE(seq, 4);
+    SEGMENT.writeUInt32BE(ack, 8);
+    SEGMENT.writeUInt8(0x50, 12);  // 5 words
+    SEGMENT.writeUInt8(flags, 13);
+    SEGMENT.writeUInt16BE(0xFFFF, 14);  // window
+    payload.copy(SEGMENT, 20);
+
+    return SEGMENT;
+}
+
+function createUdpDatagram(srcPort: number, dstPort: number, payload: Buffer): Buffer {
+    const DATAGRAM = Buffer.alloc(8 + payload.length);
+    DATAGRAM.writeUInt16BE(srcPort, 0);
+    DATAGRAM.writeUInt16BE(dstPort, 2);
+    DATAGRAM.writeUInt16BE(DATAGRAM.length, 4);
+    payload.copy(DATAGRAM, 8);
+
+    return DATAGRAM;
+}
+
+function formatIPAddress(addr: Buffer): string {
+    if (4 === addr.length) {
+        return Array.from(addr).join('.');
+    }
+
+    const GROUPS: number[] = [];
+    for (let i = 0; i < 16; i += 2) {
+        GROUPS.push(addr.readUInt16BE(i));
+    }
+
+    // find the longest run of zeros, which can be shortened by '::'
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let i = 0; i < GROUPS.length; i++) {
+        let length = 0;
+        while (i + length < GROUPS.length && 0 === GROUPS[i + length]) {
+            ++length;
+        }
+
+        if (length > bestLength && length > 1) {
+            bestStart = i;
+            bestLength = length;
+        }
+    }
+
+    const TO_HEX = (g: number[]) => g.map(x => x.toString(16)).join(':');
+
+    if (bestStart < 0) {
+        return TO_HEX(GROUPS);
+    }
+
+    return TO_HEX(GROUPS.slice(0, bestStart)) + '::' + TO_HEX(GROUPS.slice(bestStart + bestLength));
+}
+
+function getChecksum(buffers: Buffer[]): number {
+    const DATA = Buffer.concat(buffers);
+
+    let sum = 0;
+    for (let i = 0; i < DATA.length; i += 2) {
+        sum += (DATA[i] << 8) + (i + 1 < DATA.length ? DATA[i + 1] : 0);
+    }
+    while (sum > 0xFFFF) {
+        sum = (sum & 0xFFFF) + (sum >>> 16);
+    }
+
+    return (~sum) & 0xFFFF;
+}
+
+function getComment(entry: vsp_contracts.TraceEntry): string {
+    const COMMENTS: string[] = [];
+
+    if (entry.fault) {
+        COMMENTS.push(`Fault: ${vsp_helpers.toStringSafe(entry.fault.description)}`);
+    }
+    if (entry.error) {
+        COMMENTS.push(vsp_helpers.toStringSafe(entry.error));
+    }
+    if (entry.chunk && !entry.chunkSend) {
+        COMMENTS.push('Chunk has not been sent');
+    }
+
+    return COMMENTS.join("\n");
+}
+
+function pad(data: Buffer): Buffer {
+    const PADDING = (4 - data.length % 4) % 4;
+
+    return PADDING > 0 ? Buffer.concat([ data, Buffer.alloc(PADDING) ]) : data;
+}
+
+function parseIPPacket(data: Buffer) {
+    if (!data || data.length < 1) {
+        return null;
+    }
+
+    const VERSION = data[0] >> 4;
+    if (4 === VERSION && data.length >= 20) {
+        const FRAGMENT = data.readUInt16BE(6);
+        if ((FRAGMENT & 0x2000) || (FRAGMENT & 0x1FFF)) {
+            return null;  // more fragments or offset
+        }
+
+        // total length is 0 in captures with TCP segmentation offload
+        const TOTAL_LENGTH = data.readUInt16BE(2);
+
+        return {
+            dst: data.slice(16, 20),
+            payload: data.slice((data[0] & 0x0F) * 4, TOTAL_LENGTH > 0 ? Math.min(TOTAL_LENGTH, data.length) : data.length),
+            protocol: data[9],
+            src: data.slice(12, 16),
+        };
+    }
+
+    if (6 === VERSION && data.length >= 40) {
+        const PAYLOAD_LENGTH = data.readUInt16BE(4);
+
+        let nextHeader = data[6];
+        let pos = 40;
+        while ([ 0, 43, 60 ].indexOf(nextHeader) > -1 && pos + 8 <= data.length) {
+            // hop-by-hop, routing and destination options
+            nextHeader = data[pos];
+            pos += (data[pos + 1] + 1) * 8;
+        }
+        if (44 === nextHeader) {
+            return null;  // fragment
+        }
+
+        return {
+            dst: data.slice(24, 40),
+            payload: data.slice(pos, PAYLOAD_LENGTH > 0 ? Math.min(40 + PAYLOAD_LENGTH, data.length) : data.length),
+            protocol: nextHeader,
+            src: data.slice(8, 24),
+        };
+    }
+
+    return null;
+}
+
+function parseIPAddress(addr: string): Buffer {
+    if (Net.isIPv4(addr)) {
+        return Buffer.from(
+            addr.split('.').map(x => parseInt(x))
+        );
+    }
+
+    if (Net.isIPv6(addr)) {
+        const TO_GROUPS = (part: string): number[] => {
+            if ('' === part) {
+                return [];
+            }
+
+            let groups: number[] = [];
+            part.split(':').forEach(g => {
+                if (g.indexOf('.') > -1) {
+                    const IPV4 = parseIPAddress(g);
+                    groups.push(IPV4.readUInt16BE(0), IPV4.readUInt16BE(2));
+                }
+                else {
+                    groups.push(parseInt(g, 16));
+                }
+            });
+
+            return groups;
+        };
+
+        const PARTS = addr.split('%')[0].split('::');
+        const HEAD = TO_GROUPS(PARTS[0]);
+        const TAIL = PARTS.length > 1 ? TO_GROUPS(PARTS[1]) : [];
+
+        const IP = Buffer.alloc(16);
+        HEAD.concat(
+            new Array<number>(8 - HEAD.length - TAIL.length).fill(0), TAIL
+        ).forEach((g, i) => {
+            IP.writeUInt16BE(g, i * 2);
+        });
+
+        // IPv4-mapped IPv6 address, like '::ffff:127.0.0.1'
+        if (IP.readUInt32BE(0) === 0 && IP.readUInt32BE(4) === 0 && IP.readUInt32BE(8) === 0xFFFF) {
+            return IP.slice(12);
+        }
+
+        return IP;
+    }
+
+    return null;
+}
+
+function readPackets(data: Buffer): CapturedFile {
+    const NAMES: { [addr: string]: string } = {};
+    const PACKETS: CapturedPacket[] = [];
+
+    if (BLOCK_SECTION_HEADER === data.readUInt32LE(0)) {
+        // PCAPNG
+        let isLE = true;
+        let interfaces: { linkType: number, unitsPerSecond: number }[] = [];
+        let lastTime = 0;
+
+        let pos = 0;
+        while (pos + 12 <= data.length) {
+            const READ_16 = (offset: number) => isLE ? data.readUInt16LE(offset) : data.readUInt16BE(offset);
+            const READ_32 = (offset: number) => isLE ? data.readUInt32LE(offset) : data.readUInt32BE(offset);
+
+            const TYPE = data.readUInt32LE(pos);
+            if (BLOCK_SECTION_HEADER === TYPE) {
+                isLE = BYTE_ORDER_MAGIC === data.readUInt32LE(pos + 8);
+                interfaces = [];
+            }
+
+            const LENGTH = READ_32(pos + 4);
+            if (LENGTH < 12 || pos + LENGTH > data.length) {
+                break;
+            }
+
+            const GET_TIME = (offset: number, iface: number) => {
+                const UNITS = interfaces[iface] ? interfaces[iface].unitsPerSecond : 1000000;
+
+                return lastTime = (READ_32(offset) * 0x100000000 + READ_32(offset + 4)) / UNITS * 1000000;
+            };
+            const ADD_PACKET = (iface: number, offset: number, length: number, time: number) => {
+                if (interfaces[iface]) {
+                    PACKETS.push({
+                        data: data.slice(offset, Math.min(offset + length, pos + LENGTH - 4)),
+                        linkType: interfaces[iface].linkType,
+                        time: time,
+                    });
+                }
+            };
+
+            switch (READ_32(pos)) {
+                case BLOCK_INTERFACE_DESCRIPTION:
+                    {
+                        let unitsPerSecond = 1000000;
+
+                        let optPos = pos + 16;
+                        while (optPos + 4 <= pos + LENGTH - 4) {
+                            const CODE = READ_16(optPos);
+                            const OPT_LENGTH = READ_16(optPos + 2);
+                            if (0 === CODE) {
+                                break;
+                            }
+
+                            if (OPTION_IF_TSRESOL === CODE && OPT_LENGTH > 0) {
+                                const RESOL = data[optPos + 4];
+                                unitsPerSecond = (RESOL & 0x80) ? Math.pow(2, RESOL & 0x7F) : Math.pow(10, RESOL);
+                            }
+
+                            optPos += 4 + OPT_LENGTH + ((4 - OPT_LENGTH % 4) % 4);
+                        }
+
+                        interfaces.push({
+                            linkType: READ_16(pos + 8),
+                            unitsPerSecond: unitsPerSecond,
+                        });
+                    }
+                    break;
+
+                case BLOCK_ENHANCED_PACKET:
+                    ADD_PACKET(READ_32(pos + 8), pos + 28, READ_32(pos + 20), GET_TIME(pos + 12, READ_32(pos + 8)));
+                    break;
+
+                case BLOCK_PACKET:
+                    ADD_PACKET(READ_16(pos + 8), pos + 28, READ_32(pos + 20), GET_TIME(pos + 12, READ_16(pos + 8)));
+                    break;
+
+                case BLOCK_SIMPLE_PACKET:
+                    // has no timestamp
+                    ADD_PACKET(0, pos + 12, READ_32(pos + 8), lastTime);
+                    break;
+
+                case BLOCK_NAME_RESOLUTION:
+                    {
+                        let recordPos = pos + 8;
+                        while (recordPos + 4 <= pos + LENGTH - 4) {
+                            const RECORD_TYPE = READ_16(recordPos);
+                            const RECORD_LENGTH = READ_16(recordPos + 2);
+                            if (0 === RECORD_TYPE) {
+                                break;  // end of records
+                            }
+
+                            const ADDR_LENGTH = RECORD_IPV4 === RECORD_TYPE ? 4 :
+                                                RECORD_IPV6 === RECORD_TYPE ? 16 : 0;
+                            if (ADDR_LENGTH > 0 && RECORD_LENGTH > ADDR_LENGTH) {
+                                const ADDR = data.slice(recordPos + 4, recordPos + 4 + ADDR_LENGTH);
+
+                                // first of the zero-terminated names
+                                const NAME = data.slice(recordPos + 4 + ADDR_LENGTH, recordPos + 4 + RECORD_LENGTH)
+                                                 .toString('utf8').split("\0")[0];
+                                if ('' !== NAME) {
+                                    NAMES[formatIPAddress(ADDR)] = NAME;
+                                    if (4 === ADDR_LENGTH) {
+                                        // used, if the other endpoint has an IPv6 address
+                                        NAMES[formatIPAddress(toIPv6Address(ADDR))] = NAME;
+                                    }
+                                }
+                            }
+
+                            recordPos += 4 + RECORD_LENGTH + ((4 - RECORD_LENGTH % 4) % 4);
+                        }
+                    }
+                    break;
+            }
+
+            pos += LENGTH;
+        }
+    }
+    else {
+        // PCAP
+        if (data.length < 24) {
+            throw new Error('Data is NO PCAP file, because its header is incomplete!');
+        }
+
+        const IS_LE = [ PCAP_MAGIC_MICROSECONDS, PCAP_MAGIC_NANOSECONDS ].indexOf(data.readUInt32LE(0)) > -1;
+        const READ_32 = (offset: number) => IS_LE ? data.readUInt32LE(offset) : data.readUInt32BE(offset);
+
+        const IS_NANOSECONDS = PCAP_MAGIC_NANOSECONDS === READ_32(0);
+        const LINK_TYPE = READ_32(20) & 0xFFFF;
+
+        let pos = 24;
+        while (pos + 16 <= data.length) {
+            const LENGTH = READ_32(pos + 8);
+
+            PACKETS.push({
+                data: data.slice(pos + 16, Math.min(pos + 16 + LENGTH, data.length)),
+                linkType: LINK_TYPE,
+                time: READ_32(pos) * 1000000 + (IS_NANOSECONDS ? READ_32(pos + 4) / 1000 : READ_32(pos + 4)),
+            });
+
+            pos += 16 + LENGTH;
+        }
+    }
+
+    return {
+        names: NAMES,
+        packets: PACKETS,
+    };
+}
+
+function splitChunk(chunk: Buffer): Buffer[] {
+    const SEGMENTS: Buffer[] = [];
+
+    if (chunk) {
+        for (let i = 0; i < chunk.length; i += MAX_SEGMENT_SIZE) {
+            SEGMENTS.push(
+                chunk.slice(i, i + MAX_SEGMENT_SIZE)
+            );
+        }
+    }
+
+    return SEGMENTS;
+}
+
+function toIPv6Address(addr: Buffer): Buffer {
+    if (16 === addr.length) {
+        return addr;
+    }
+
+    return Buffer.concat([
+        Buffer.from([ 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xFF, 0xFF ]), addr,
+    ]);
+}
+
+function toIPPacket(data: Buffer, linkType: number): Buffer {
+    switch (linkType) {
+        case LINKTYPE_ETHERNET:
+            {
+                let pos = 12;
+                while (pos + 2 <= data.length && [ 0x8100, 0x88A8 ].indexOf(data.readUInt16BE(pos)) > -1) {
+                    pos += 4;  // VLAN tags
+                }
+
+                if (pos + 2 <= data.length && [ 0x0800, 0x86DD ].indexOf(data.readUInt16BE(pos)) > -1) {
+                    return data.slice(pos + 2);
+                }
+            }
+            break;
+
+        case LINKTYPE_IPV4:
+        case LINKTYPE_IPV6:
+        case LINKTYPE_RAW:
+            return data;
+
+        case LINKTYPE_LINUX_SLL:
+            return data.slice(16);
+
+        case LINKTYPE_LINUX_SLL2:
+            return data.slice(20);
+
+        case LINKTYPE_NULL:
+            // address family in byte order of the capturing host
+            return data.slice(4);
+    }
+
+    return null;
+}
+
+function toMicroseconds(time: any): number {
+    const MS = time ? parseInt(vsp_helpers.toStringSafe(time.valueOf())) : NaN;
+
+    return (isNaN(MS) ? 0 : MS) * 1000;
+}
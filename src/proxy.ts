@@ -21,23 +21,74 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 // DEALINGS IN THE SOFTWARE.
 
-import * as Enumerable from 'node-enumerable';
+import * as Dgram from 'dgram';
 import * as Events from 'events';
 import * as FileSize from 'filesize';
 const Hexy = require('hexy');
 import * as Moment from 'moment';
 import * as Net from 'net';
 import * as Stream from 'stream';
+import * as TLS from 'tls';
 import * as UUID from 'uuid';
 import * as vscode from 'vscode';
+import * as vsp_balancer from './balancer';
+import * as vsp_breakpoints from './breakpoints';
 import * as vsp_contracts from './contracts';
 import * as vsp_controller from './controller';
+import * as vsp_faults from './faults';
+import * as vsp_health from './health';
 import * as vsp_helpers from './helpers';
-
+import * as vsp_mock from './mock';
+import * as vsp_rewrite from './rewrite';
+import * as vsp_scripts from './scripts';
+import * as vsp_shaping from './shaping';
+import * as vsp_tls from './tls';
+import * as vsp_trace from './trace';
+import * as vsp_watcher from './watcher';
+import * as vsp_workers from './workers';
+
+
+interface ChunkHandler {
+    handleChunk: vsp_contracts.ChunkHandlerModuleExecutor;
+    readonly options: any;
+    readonly script: string;
+    state: any;
+}
 
 interface EntryWithSocket {
-    readonly entry: { host: string; port: number; };
+    readonly downstream: vsp_shaping.ShapedStream;
+    readonly entry: vsp_helpers.TargetAddress;
+    readonly index: number;
+    readonly intercept: vsp_breakpoints.InterceptStream;
+    pending: Buffer[] | false;
     readonly socket: Net.Socket;
+    readonly upstream: vsp_shaping.ShapedStream;
+}
+
+interface HandledChunk {
+    readonly chunk: Buffer;
+    readonly originalChunk: Buffer;
+    readonly rewrites?: vsp_contracts.TraceRewrite[];
+}
+
+interface ProxyContext {
+    readonly balancer: vsp_balancer.TargetBalancer;
+    readonly createInterceptStream: (destination: vsp_contracts.ProxyDestination,
+                                     session: vsp_breakpoints.BreakpointSession,
+                                     onPause?: (paused: boolean) => void) => vsp_breakpoints.InterceptStream;
+    readonly createShaper: () => vsp_shaping.TrafficShaper;
+    readonly faults: vsp_faults.FaultInjector;
+    readonly handleChunk: (chunk: Buffer, destination: vsp_contracts.ProxyDestination,
+                           session: TraceSession, originalChunk?: Buffer) => HandledChunk | PromiseLike<HandledChunk>;
+    readonly handleError: (err: any, source?: any) => void;
+    readonly handleLifecycle: (hook: keyof vsp_contracts.LifecycleHandlerModule,
+                               session: TraceSession, source: vsp_contracts.SocketAddress, args?: any) => void;
+    readonly handleTraceEntry: (newEntry: vsp_contracts.TraceEntry) => void;
+    readonly mock: vsp_mock.MockTarget | false;
+    readonly selectTargets: (session: TraceSession, source: vsp_contracts.SocketAddress) => number[] | false;
+    readonly sendBack: (targetIndex: number) => boolean;
+    readonly statistics: ProxyStatistics;
+    readonly targets: vsp_helpers.TargetAddress[];
 }
 
 interface ProxyStatistics {
@@ -51,66 +102,115 @@ interface ProxyStatistics {
     };
 }
 
+type TraceSession = vsp_contracts.TraceEntry['session'];
+
+interface UdpSession {
+    readonly client: vsp_contracts.SocketAddress;
+    readonly faults: vsp_faults.ConnectionFaults;
+    readonly handleLifecycle: (hook: keyof vsp_contracts.LifecycleHandlerModule, args?: any) => void;
+    readonly id: string;
+    readonly intercept: vsp_breakpoints.InterceptStream;
+    readonly key: string;
+    readonly sockets: UdpTargetSocket[];
+    readonly time: Moment.Moment;
+    timeout?: NodeJS.Timer;
+}
+
+interface UdpTargetSocket {
+    readonly downstream: vsp_shaping.ShapedStream;
+    readonly index: number;
+    readonly intercept: vsp_breakpoints.InterceptStream;
+    readonly socket: Dgram.Socket;
+    readonly upstream: vsp_shaping.ShapedStream;
+}
+
+
+/**
+ * The interval in milliseconds, the status bar item of a proxy with worker threads is updated.
+ */
+const BUTTON_UPDATE_INTERVAL = 250;
 
 let nextCommandsId = -1;
 
-function getTraceGroup(entry: vsp_contracts.TraceEntry) {
-    if (!entry) {
-        return;
-    }
+function createPauser(socket: Net.Socket): (paused: boolean) => void {
+    // a socket can be paused by more than one stream,
+    // so it is resumed after all of them have resumed it
+    let count = 0;
 
-    const DESTINATION = entry.destination;
-    const SOURCE = `[${entry.sourceIndex}] ${entry.source.addr}:${entry.source.port}`;
-    const TARGET = `[${entry.targetIndex}] ${entry.target.addr}:${entry.target.port}`;
-    const SESSION = `${entry.session.id}\t${entry.session.time.toDate().getTime()}`;
-
-    return `${DESTINATION}\n${SOURCE}\n${TARGET}\n${SESSION}`;
-};
-
-function toSocketAddressPipeString(entry: vsp_contracts.TraceEntry) {
-    let separator: string;
-    let left: string;
-    let right: string;
-    switch (entry.destination) {
-        case vsp_contracts.ProxyDestination.ProxyToTarget:
-            separator = '=>';
-            left = `[${entry.sourceIndex}] '${entry.source.addr}:${entry.source.port}'`;
-            right = `[${entry.targetIndex}] '${entry.target.addr}:${entry.target.port}'`;
-            break;
-
-        case vsp_contracts.ProxyDestination.TargetToProxy:
-            separator = '<=';
-            right = `[${entry.sourceIndex}] '${entry.source.addr}:${entry.source.port}'`;
-            left = `[${entry.targetIndex}] '${entry.target.addr}:${entry.target.port}'`;
-            break;
-    }
+    return (paused) => {
+        if (paused) {
+            if (++count === 1) {
+                socket.pause();
+            }
+        }
+        else if (count > 0) {
+            if (--count === 0) {
+                socket.resume();
+            }
+        }
+    };
+}
+
+function toChunkHandlerSettings(entry: vsp_contracts.ProxyEntry): vsp_contracts.ChunkHandlerSettings[] {
+    return vsp_helpers.asArray(entry.chunkHandler).map(ch => {
+        if (ch && 'object' === typeof ch) {
+            return <vsp_contracts.ChunkHandlerSettings>ch;
+        }
+
+        return {
+            script: vsp_helpers.toStringSafe(ch),
+        };
+    }).filter(s => !vsp_helpers.isEmptyString(s.script));
+}
+
+function whenChunkHandled(handleChunk: () => HandledChunk | PromiseLike<HandledChunk>,
+                          action: (handled: HandledChunk) => void,
+                          onError: (err: any) => void): PromiseLike<void> | void {
+    try {
+        const HANDLED = handleChunk();
+        if (vsp_helpers.isPromiseLike(HANDLED)) {
+            return Promise.resolve(HANDLED)
+                          .then(action)
+                          .catch(onError);
+        }
 
-    return `${left} ${separator} ${right}`;
+        action(HANDLED);
+    }
+    catch (e) {
+        onError(e);
+    }
 }
 
 /**
- * A TCP proxy.
+ * A proxy (base class).
  */
-export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
+export abstract class ProxyBase extends Events.EventEmitter implements vscode.Disposable {
     private _button: vscode.StatusBarItem;
     private _buttonCommand: vscode.Disposable;
     private readonly _COMMANDS_ID = ++nextCommandsId;
     private readonly _CONTROLLER: vsp_controller.Controller;
     private readonly _ENTRY: vsp_contracts.ProxyEntry;
+    private _faultsEnabled: boolean;
     private _globalScriptState: Object;
+    private _health: vsp_health.HealthChecker;
     private readonly _INDEX: number;
     private _isInitialized = false;
+    private _mock: vsp_mock.MockTarget;
     private readonly _PORT: number;
-    private _server: Net.Server;
+    private _scriptWatchers: vsp_watcher.ScriptWatcher[] = [];
+    private _sessionStates: { [id: string]: { [script: string]: any } } = {};
     private _statistics: ProxyStatistics;
-    private _trace: vsp_contracts.TraceEntry[];
+    private _targets: vsp_helpers.TargetAddress[];
+    private _trace: vsp_trace.TraceBuffer;
+    private _traceFile: vsp_trace.TraceFileWriter;
     private _traceWriterState: any;
+    private _workers: vsp_workers.WorkerPool;
 
     /**
      * Initializes a new instance of that class.
      * 
      * @param {vsp_controller.Controller} controller The underlying controller.
-     * @param {number} port The TCP port.
+     * @param {number} port The port.
      * @param {vsp_contracts.ProxyEntry} entry The underlying entry.
      * @param {number} index The zero-based index of that proxy.
      */
@@ -123,6 +223,20 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
         this._PORT = port;
         this._ENTRY = entry;
         this._INDEX = index;
+
+        this._faultsEnabled = vsp_helpers.toBooleanSafe(
+            entry.faults ? entry.faults.enabled : undefined, true
+        );
+    }
+
+    /**
+     * Begins a new session, which has been accepted, by creating
+     * the storage for the session states of the scripts.
+     * 
+     * @param {string} id The ID of the session.
+     */
+    protected beginSession(id: string) {
+        this._sessionStates[id] = {};
     }
 
     /**
@@ -145,16 +259,33 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
 
         vsp_helpers.tryDispose(this._button);
         vsp_helpers.tryDispose(this._buttonCommand);
+        vsp_helpers.tryDispose(this._health);
 
-        const OLD_SERVER = this._server;
-        if (OLD_SERVER) {
-            OLD_SERVER.close();
-        }
+        vsp_helpers.tryDispose(this._trace);
+        vsp_helpers.tryDispose(this._traceFile);
 
         this._button = null;
         this._buttonCommand = null;
+        this._health = null;
+        this._trace = null;
+        this._traceFile = null;
 
-        this._server = null;
+        this.stopMock();
+        this.stopScriptWatchers();
+        this.stopWorkers();
+    }
+
+    /**
+     * Ends a session by removing the session states of the scripts.
+     * 
+     * @param {string} id The ID of the session.
+     */
+    protected endSession(id: string) {
+        delete this._sessionStates[id];
+
+        if (this._workers) {
+            this._workers.endSession(id);
+        }
     }
 
     /**
@@ -164,6 +295,20 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
         return this._ENTRY;
     }
 
+    /**
+     * Gets if fault injection has been configured for that proxy or not.
+     */
+    public get hasFaults(): boolean {
+        return !!this.entry.faults;
+    }
+
+    /**
+     * Gets the width for binary data in hex view.
+     */
+    public get hexWidth(): number {
+        return this.controller.hexWidth;
+    }
+
     /**
      * Gets the zero-based index of that proxy.
      */
@@ -208,6 +353,13 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
         ME._isInitialized = true;
     }
 
+    /**
+     * Gets if faults are currently injected or not.
+     */
+    public get isInjectingFaults(): boolean {
+        return this.hasFaults && this._faultsEnabled;
+    }
+
     /**
      * Gets if the proxy has been initialized or not.
      */
@@ -218,9 +370,7 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
     /**
      * Gets if proxy is running or not.
      */
-    public get isRunning() {
-        return !!this._server;
-    }
+    public abstract get isRunning(): boolean;
 
     /**
      * Gets if the proxy is current in trace mode or not.
@@ -240,15 +390,32 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
         );
     }
 
+    /**
+     * Loads a handler script or trace writer, with limits, if defined.
+     * 
+     * @param {string} file The path to the script.
+     * 
+     * @return {TModule} The module.
+     */
+    protected loadScript<TModule>(file: string): TModule {
+        const LIMITS = vsp_scripts.toScriptLimits(this.entry.scriptLimits);
+        if (false !== LIMITS) {
+            return vsp_scripts.loadLimitedModule<TModule>(file, LIMITS);
+        }
+
+        return vsp_helpers.loadModule<TModule>(file);
+    }
+
     /**
      * Opens all trace items or a specific one in a new tab.
      * 
      * @param {number} [index] The zero-based index of the specific one.
+     * @param {boolean} [diff] Show the differences between the original and the sent chunks or not. Default: (false)
      */
-    public async openTraceInNewTab(index?: number) {
+    public async openTraceInNewTab(index?: number, diff = false) {
         const ME = this;
 
-        const ALL_TRACE = this._trace;
+        const ALL_TRACE = this.trace;
         if (!ALL_TRACE) {
             return;
         }
@@ -268,74 +435,19 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
             return;
         }
 
-        const GET_GROUPED_TASKS = () => {
-            return Enumerable.from(ALL_TRACE).groupBy(x => {
-                return getTraceGroup(x);
-            });
-        };
-
         try {
-            const EOL = "\n";
-
             let outputFormat = vsp_helpers.normalizeString(ME.entry.outputFormat);
             if ('' === outputFormat) {
                 outputFormat = vsp_helpers.normalizeString(ME.controller.config.outputFormat);
             }
 
-            let editorText: string;
-            let lang = 'plaintext';
-            switch (outputFormat) {
-                case 'ascii':
-                    editorText = trace.map(te => {
-                        if (te.chunk) {
-                            return te.chunk.toString('ascii');
-                        }
-
-                        return '';
-                    }).join(EOL + EOL);
-                    break;
-
-                case 'http':
-                    {
-                        let editorContent = Buffer.alloc(0);
-
-                        GET_GROUPED_TASKS().where(grp => {
-                            return trace.map(t => getTraceGroup(t))
-                                        .indexOf(grp.key) > -1;
-                        }).forEach(grp => {
-                            grp.each(x => {
-                                if (x.chunk) {
-                                    editorContent = Buffer.concat([
-                                        editorContent,
-                                        x.chunk,
-                                    ]);
-                                }
-                            });
-                        });
-
-                        editorText = editorContent.toString('ascii');
-                    }
-                    break;
-
-                case 'json':
-                    editorText = JSON.stringify(trace, null, 2);
-                    lang = 'json';
-                    break;
-
-                default:
-                    editorText = trace.map(te => {
-                        return ME.traceEntryToString(te)
-                                 .split("\n").join(EOL);
-                    }).join(EOL);
-                    break;
-            }
-
-            const EDITOR = await vscode.window.showTextDocument(
-                await vscode.workspace.openTextDocument({
-                    language: lang,
-                    content: editorText,
-                }),
-            );
+            await vsp_trace.showTrace(trace, ALL_TRACE, {
+                format: outputFormat,
+                hexWidth: ME.hexWidth,
+                name: ME.name,
+                protocol: ME.protocol,
+                version: ME.controller.packageFile ? ME.controller.packageFile.version : undefined,
+            }, diff);
         }
         catch (e) {
             console.trace('[Proxy] controller.openTraceInNewTab(): ' +
@@ -344,12 +456,17 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
     }
 
     /**
-     * The TCP port.
+     * The port.
      */
     public get port(): number {
         return this._PORT;
     }
 
+    /**
+     * Gets the protocol, like 'tcp' or 'udp'.
+     */
+    public abstract get protocol(): string;
+
     /**
      * Shows trace actions.
      */
@@ -362,40 +479,12 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
             const QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = [];
 
             const IS_TRACING = ME.isTracing;
-            const TRACE = (ME.trace || []).map((te, i) => {
-                return {
-                    entry: te,
-                    index: i,
-                };
-            });
             {
                 if (IS_TRACING) {
-                    TRACE.sort((x, y) => {
-                        return vsp_helpers.compareValuesBy(y, x,
-                                                           i => i.index);
-                    }).forEach(x => {
-                        let traceDescription: string;
-
-                        let icon: string;
-                        switch (x.entry.destination) {
-                            case vsp_contracts.ProxyDestination.ProxyToTarget:
-                                icon = 'arrow-up';
-                                break;
-
-                            case vsp_contracts.ProxyDestination.TargetToProxy:
-                                icon = 'arrow-down';
-                                break;
-                        }
-
-                        let traceLabel = `$(${icon})  [${x.index + 1}] ${x.entry.time.format('YYYY-MM-DD HH:mm:ss.SSS')}`;
-
-                        QUICK_PICKS.push({
-                            description: traceDescription,
-                            label: traceLabel,
-                            action: async () => {
-                                await ME.openTraceInNewTab(x.index);
-                            }
-                        });
+                    vsp_trace.createTraceQuickPicks(ME.trace, async (index, diff) => {
+                        await ME.openTraceInNewTab(index, diff);
+                    }).forEach(qp => {
+                        QUICK_PICKS.push(qp);
                     });
                 }
 
@@ -437,7 +526,7 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
             }
         }
         catch (e) {
-            console.trace(`[Proxy] TcpProxy.showTraceActions()`);
+            console.trace(`[Proxy] ProxyBase.showTraceActions()`);
         }
     }
 
@@ -446,513 +535,1001 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
      * 
      * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
      */
-    public start() {
+    public async start() {
         const ME = this;
 
-        return new Promise<boolean>((resolve, reject) => {
-            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+        if (ME.isRunning) {
+            return false;
+        }
 
-            if (ME._server) {
-                COMPLETED(null, false);
-                return;
+        let isStarted = false;
+        try {
+            isStarted = await ME.startProxy();
+        }
+        finally {
+            if (!isStarted) {
+                // release everything, which has been
+                // created before the start failed
+                ME.stopMock();
+                ME.stopScriptWatchers();
+                ME.stopWorkers();
             }
+        }
 
-            try {
-                const CFG = vsp_helpers.cloneObject(ME.controller.config);
-                const PKG_FILE = vsp_helpers.cloneObject(ME.controller.packageFile);
+        return isStarted;
+    }
 
-                const SOURCE = vsp_helpers.getPortSafe(ME.port, 8081);
-                const TARGETS = vsp_helpers.asArray(ME.entry.to).filter(t => {
-                    return !vsp_helpers.isNullOrUndefined(t);
-                }).map(t => {
-                    return vsp_helpers.getHostAndPort(t, 8080);
-                });
+    /**
+     * Creates the logic for the connections and starts the underlying server.
+     * 
+     * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
+     */
+    protected async startProxy() {
+        const ME = this;
 
-                let receiveChunksFrom: false | number[] = <any>ME.entry.receiveChunksFrom;
-                if (vsp_helpers.isNullOrUndefined(receiveChunksFrom)) {
-                    receiveChunksFrom = [ 0 ];  // default: first target
-                }
-                else {
-                    if (false !== receiveChunksFrom) {
-                        receiveChunksFrom = vsp_helpers.asArray(receiveChunksFrom).map(x => {
-                            return parseInt( vsp_helpers.toStringSafe(x).trim() );
-                        }).filter(x => !isNaN(x));
-                    }
-                }
+        const CFG = vsp_helpers.cloneObject(ME.controller.config);
+        const PKG_FILE = vsp_helpers.cloneObject(ME.controller.packageFile);
 
-                if (Array.isArray(receiveChunksFrom)) {
-                    receiveChunksFrom = vsp_helpers.distinctArray( receiveChunksFrom );
-                }
+        // answer with a recorded trace
+        // instead of connecting to the targets
+        const MOCK_OPTIONS = vsp_mock.toMockOptions(ME.entry.mock);
+        let mock: vsp_mock.MockTarget | false = false;
+        if (false !== MOCK_OPTIONS) {
+            mock = new vsp_mock.MockTarget(MOCK_OPTIONS,
+                                           vsp_trace.readTraceFile(MOCK_OPTIONS.file).trace);
 
-                // trace handler
-                let handleTrace: vsp_contracts.TraceHandlerModuleExecutor;
-                let handleTraceOptions = vsp_helpers.cloneObject(
-                    this.entry.traceHandlerOptions,
-                );
-                let handleTraceState = vsp_helpers.cloneObject(
-                    this.entry.traceHandlerState
-                );
-                if (!vsp_helpers.isEmptyString(this.entry.traceHandler)) {
-                    const HANDLER_MODULE = vsp_helpers.loadModule<vsp_contracts.TraceHandlerModule>(this.entry.traceHandler);
-                    if (HANDLER_MODULE) {
-                        handleTrace = HANDLER_MODULE.handleTrace;
-                    }
-                }
+            ME.stopMock();
+            ME._mock = mock;
 
-                // chunk handler
-                let handleChunk: vsp_contracts.ChunkHandlerModuleExecutor;
-                let handleChunkOptions = vsp_helpers.cloneObject(
-                    this.entry.chunkHandlerOptions,
-                );
-                let handleChunkState = vsp_helpers.cloneObject(
-                    this.entry.chunkHandlerState
-                );
-                if (!vsp_helpers.isEmptyString(this.entry.chunkHandler)) {
-                    const HANDLER_MODULE = vsp_helpers.loadModule<vsp_contracts.ChunkHandlerModule>(this.entry.chunkHandler);
-                    if (HANDLER_MODULE) {
-                        handleChunk = HANDLER_MODULE.handleChunk;
-                    }
-                }
+            mock.on('unmatched', (request: Buffer, client: vsp_contracts.SocketAddress) => {
+                const PREVIEW = request.toString('latin1', 0, Math.min(request.length, 64))
+                                       .split(/\r?\n/)[0];
 
-                const WRITE_TO_OUTPUT = vsp_helpers.toBooleanSafe(
-                    ME.entry.writeToOutput,
-                    vsp_helpers.toBooleanSafe(CFG.writeToOutput),
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': No recorded answer for request with ${request.length} byte(s) from '${client.addr}:${client.port}': ${JSON.stringify(PREVIEW)}`
                 );
+            });
+        }
+        const MOCK = mock;
 
-                const GLOBALS = vsp_helpers.cloneObject(CFG.globals);
+        const TARGETS = MOCK ? [ MOCK.target ] : vsp_helpers.asArray(ME.entry.to).filter(t => {
+            return !vsp_helpers.isNullOrUndefined(t);
+        }).map(t => {
+            return vsp_helpers.getTargetAddress(t, 8080);
+        });
 
-                const HANDLE_ERROR = (err: any, source?: any) => {
-                    if (!err) {
-                        return;
-                    }
+        let receiveChunksFrom: false | number[] = <any>ME.entry.receiveChunksFrom;
+        if (vsp_helpers.isNullOrUndefined(receiveChunksFrom)) {
+            receiveChunksFrom = [ 0 ];  // default: first target
+        }
+        else {
+            if (false !== receiveChunksFrom) {
+                receiveChunksFrom = vsp_helpers.asArray(receiveChunksFrom).map(x => {
+                    return parseInt( vsp_helpers.toStringSafe(x).trim() );
+                }).filter(x => !isNaN(x));
+            }
+        }
 
-                    console.trace(`[Proxy] TcpProxy.start(HANDLE_ERROR): ${vsp_helpers.toStringSafe(err)}`);
-                };
+        if (Array.isArray(receiveChunksFrom)) {
+            receiveChunksFrom = vsp_helpers.distinctArray( receiveChunksFrom );
+        }
 
-                const HANDLE_TRACE_ENTRY = (newEntry: vsp_contracts.TraceEntry) => {
-                    if (!newEntry) {
-                        return;
-                    }
+        const CHUNK_HANDLER_SETTINGS = toChunkHandlerSettings(ME.entry);
+
+        // ask before running new or changed scripts
+        const IS_TRUSTED = await vsp_scripts.requestTrust(
+            ME.controller.context,
+            [
+                ME.entry.lifecycleHandler,
+                ME.entry.traceHandler,
+                vsp_trace.isBuiltInTraceWriter(ME.entry.traceWriter) ? null : ME.entry.traceWriter,
+            ].concat(
+                CHUNK_HANDLER_SETTINGS.map(s => s.script)
+            ),
+            ME.name,
+        );
+        if (!IS_TRUSTED) {
+            throw new Error(`Scripts of proxy '${ME.name}' are not trusted!`);
+        }
 
-                    const TRACE = ME._trace;
-
-                    let appendToTrace = true;
-                                        // trace handler
-                    if (handleTrace) {
-                        const ARGS: vsp_contracts.TraceHandlerModuleExecutorArguments = {
-                            config: CFG,
-                            context: ME.controller.context,
-                            entry: newEntry,
-                            globals: GLOBALS,
-                            globalState: ME._globalScriptState,
-                            options: handleTraceOptions,
-                            outputChannel: ME.controller.outputChannel,
-                            packageFile: PKG_FILE,
-                            save: appendToTrace,
-                            state: undefined,
-                            trace: TRACE,
-                        };
+        const LOAD_SCRIPT = <TModule>(file: string): TModule => {
+            return ME.loadScript<TModule>(file);
+        };
 
-                        // ARGS.state
-                        Object.defineProperty(ARGS, 'state', {
-                            get: () => handleTraceState,
-                            set: (newValue) => {
-                                handleTraceState = newValue;
-                            },
-                        });
+        let workerOptions = vsp_workers.toWorkerPoolOptions(ME.entry.workers);
+        if (false !== workerOptions) {
+            if (false !== vsp_scripts.toScriptLimits(ME.entry.scriptLimits)) {
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Scripts run with limits, so no worker threads are used.`
+                );
 
-                        handleTrace(ARGS);
+                workerOptions = false;
+            }
+            else if (!vsp_workers.isSupported()) {
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Worker threads are not supported by Node.js ${process.version}.`
+                );
 
-                        appendToTrace = vsp_helpers.toBooleanSafe(
-                            ARGS.save,
-                            true
-                        );
-                    }
+                workerOptions = false;
+            }
+        }
+        const WORKER_OPTIONS = workerOptions;
 
-                    // append to trace
-                    if (appendToTrace && TRACE) {
-                        try {
-                            TRACE.push(newEntry);
-                        }
-                        catch (e) {
-                            console.trace('[Proxy] proxy.TcpProxy.start(append trace): ' +
-                                          vsp_helpers.toStringSafe(e));
-                        }
-                    }
+        // trace handler
+        let handleTrace: vsp_contracts.TraceHandlerModuleExecutor;
+        let handleTraceOptions = vsp_helpers.cloneObject(
+            this.entry.traceHandlerOptions,
+        );
+        let handleTraceState = vsp_helpers.cloneObject(
+            this.entry.traceHandlerState
+        );
+        if (!vsp_helpers.isEmptyString(this.entry.traceHandler)) {
+            const HANDLER_MODULE = LOAD_SCRIPT<vsp_contracts.TraceHandlerModule>(this.entry.traceHandler);
+            if (HANDLER_MODULE) {
+                handleTrace = HANDLER_MODULE.handleTrace;
+            }
+        }
 
-                    // write to output
-                    if (ME.isTracing) {
-                        if (WRITE_TO_OUTPUT) {
-                            try {
-                                ME.controller.outputChannel.append(
-                                    ME.traceEntryToString(newEntry),
-                                );
-                            }
-                            catch (e) {
-                                console.trace('[Proxy] proxy.TcpProxy.start(write to output): ' +
-                                              vsp_helpers.toStringSafe(e));
-                            }
-                        }
-                    }
-                };
+        // chunk handlers
+        const CHUNK_HANDLERS: ChunkHandler[] = [];
+        CHUNK_HANDLER_SETTINGS.forEach(settings => {
+            // with worker threads, the scripts are loaded there
+            const HANDLER_MODULE = false === WORKER_OPTIONS ?
+                LOAD_SCRIPT<vsp_contracts.ChunkHandlerModule>(settings.script) : null;
+
+            CHUNK_HANDLERS.push({
+                handleChunk: HANDLER_MODULE ? HANDLER_MODULE.handleChunk : undefined,
+                options: vsp_helpers.cloneObject(
+                    vsp_helpers.isUndefined(settings.options) ? this.entry.chunkHandlerOptions : settings.options
+                ),
+                script: settings.script,
+                state: vsp_helpers.cloneObject(
+                    vsp_helpers.isUndefined(settings.state) ? this.entry.chunkHandlerState : settings.state
+                ),
+            });
+        });
 
-                const HANDLE_CHUNK = (chunk: Buffer, destination: vsp_contracts.ProxyDestination) => {
-                    let newCunk = chunk;
-
-                    // chunk handler
-                    if (handleChunk) {
-                        const ARGS: vsp_contracts.ChunkHandlerModuleExecutorArguments = {
-                            chunk: chunk,
-                            config: CFG,
-                            context: ME.controller.context,
-                            destination: destination,
-                            globals: GLOBALS,
-                            globalState: ME._globalScriptState,
-                            options: handleChunkOptions,
-                            outputChannel: ME.controller.outputChannel,
-                            packageFile: PKG_FILE,
-                            state: undefined,
-                        };
+        // lifecycle handler
+        let lifecycleHandler: vsp_contracts.LifecycleHandlerModule;
+        let lifecycleHandlerOptions = vsp_helpers.cloneObject(
+            this.entry.lifecycleHandlerOptions,
+        );
+        let lifecycleHandlerState = vsp_helpers.cloneObject(
+            this.entry.lifecycleHandlerState
+        );
+        if (!vsp_helpers.isEmptyString(this.entry.lifecycleHandler)) {
+            lifecycleHandler = LOAD_SCRIPT<vsp_contracts.LifecycleHandlerModule>(this.entry.lifecycleHandler);
+        }
 
-                        // ARGS.state
-                        Object.defineProperty(ARGS, 'state', {
-                            get: () => handleChunkState,
-                            set: (newValue) => {
-                                handleChunkState = newValue;
-                            },
-                        });
-        
-                        handleChunk(ARGS);
+        // reloads the handler scripts in place,
+        // after they have been changed
+        const WATCH_SCRIPTS = () => {
+            const WATCH = <TModule>(file: string, onLoaded: (module: TModule) => void,
+                                    loader?: (file: string) => TModule) => {
+                if (vsp_helpers.isEmptyString(file)) {
+                    return;
+                }
 
-                        newCunk = ARGS.chunk;
-                    }
+                const NEW_WATCHER = new vsp_watcher.ScriptWatcher<TModule>(file, undefined, loader || LOAD_SCRIPT, (f) => {
+                    // ask again, before running the changed script
+                    return vsp_scripts.requestTrust(ME.controller.context, [ f ], ME.name);
+                });
 
-                    return newCunk;
-                };
+                NEW_WATCHER.on('loaded', (module: TModule) => {
+                    onLoaded(module || <any>{});
 
-                let newServer: Net.Server;
-                const NEW_STATS: ProxyStatistics = {
-                    bytesReceived: 0,
-                    bytesSend: 0,
-                    chunksReceived: 0,
-                    chunksSend: 0,
-                    lastChunks: {},
-                };
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Script '${NEW_WATCHER.file}' has been reloaded.`
+                    );
+                });
+                NEW_WATCHER.on('error', (err: any) => {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Could not reload script '${NEW_WATCHER.file}': ${vsp_helpers.toStringSafe(err)}`
+                    );
+                });
 
-                newServer = Net.createServer((from) => {
-                    try {
-                        const SESSION = {
-                            id: UUID.v4(),
-                            time: Moment.utc(),
-                        };
+                ME._scriptWatchers.push(NEW_WATCHER);
+            };
 
-                        from.on('error', (err) => {
-                            HANDLE_ERROR(err, from);
-                        });
+            CHUNK_HANDLERS.forEach((ch, i) => {
+                if (WORKERS) {
+                    WATCH<vsp_workers.WorkerScript>(ch.script, (script) => {
+                        WORKERS.reload(i, script.code);
+                    }, vsp_workers.readScript);
 
-                        const ENTRIES_AND_SOCKETS: EntryWithSocket[] = [];
-                        TARGETS.forEach((te, i) => {
-                            const TO = Net.createConnection({
-                                host: te.host,
-                                port: te.port,
-                            });
+                    return;
+                }
 
-                            const NEW_TO: EntryWithSocket = {
-                                entry: te,
-                                socket: TO,
-                            };
+                WATCH<vsp_contracts.ChunkHandlerModule>(ch.script, (module) => {
+                    ch.handleChunk = module.handleChunk;
+                });
+            });
+            WATCH<vsp_contracts.LifecycleHandlerModule>(ME.entry.lifecycleHandler, (module) => {
+                lifecycleHandler = module;
+            });
+            WATCH<vsp_contracts.TraceHandlerModule>(ME.entry.traceHandler, (module) => {
+                handleTrace = module.handleTrace;
+            });
+        };
 
-                            TO.on('error', (err) => {
-                                HANDLE_ERROR(err, TO);
-                            });
+        const WRITE_TO_OUTPUT = vsp_helpers.toBooleanSafe(
+            ME.entry.writeToOutput,
+            vsp_helpers.toBooleanSafe(CFG.writeToOutput),
+        );
 
-                            TO.once('end', () => {
-                                TO.end();
-                            });
+        const GLOBALS = vsp_helpers.cloneObject(CFG.globals);
+
+        // worker threads for handling chunks
+        // and creating hex dumps
+        let workers: vsp_workers.WorkerPool;
+        if (false !== WORKER_OPTIONS) {
+            workers = new vsp_workers.WorkerPool(WORKER_OPTIONS, {
+                config: CFG,
+                globals: GLOBALS,
+                packageFile: PKG_FILE,
+                scripts: CHUNK_HANDLERS.map(ch => {
+                    return Object.assign(vsp_workers.readScript(ch.script), {
+                        options: ch.options,
+                        state: ch.state,
+                    });
+                }),
+            });
 
-                            TO.on('data', function(chunk) {
-                                try {
-                                    const NOW = Moment.utc();
+            workers.on('error', (err: any) => {
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Worker thread failed: ${vsp_helpers.toStringSafe(err)}`
+                );
+            });
+            workers.on('output', (value: string) => {
+                ME.controller.outputChannel.append(value);
+            });
+            workers.on('end', () => {
+                // do not drop chunks without a handler
+                vscode.window.showErrorMessage(`[Proxy] '${ME.name}': All worker threads have stopped, so the proxy has been stopped too!`).then(() => {
+                }, (err) => {
+                    console.trace('[Proxy] proxy.ProxyBase.start(workers end 1): ' +
+                                  vsp_helpers.toStringSafe(err));
+                });
 
-                                    chunk = HANDLE_CHUNK(
-                                        chunk, vsp_contracts.ProxyDestination.TargetToProxy,
-                                    );
+                ME.stop().then(() => {
+                }, (err) => {
+                    console.trace('[Proxy] proxy.ProxyBase.start(workers end 2): ' +
+                                  vsp_helpers.toStringSafe(err));
+                });
+            });
 
-                                    let err: any;
-                                    let chunkSend = false;
-                                    if (chunk) {
-                                        let sendBack = false;
+            try {
+                await workers.start();
+            }
+            catch (e) {
+                vsp_helpers.tryDispose(workers);
 
-                                        if (!Array.isArray(receiveChunksFrom)) {
-                                            sendBack = vsp_helpers.toBooleanSafe(receiveChunksFrom);
-                                        }
-                                        else {
-                                            sendBack = receiveChunksFrom.indexOf(i) > -1;
-                                        }
+                throw e;
+            }
+        }
+        const WORKERS = workers;
 
-                                        if (sendBack) {
-                                            try {
-                                                from.write(chunk);  // send "answer"
+        ME.stopWorkers();
+        ME._workers = WORKERS;
 
-                                                chunkSend = true;
+        // with worker threads, the status bar item
+        // is only updated once per interval
+        let buttonUpdate: NodeJS.Timer;
+        const UPDATE_BUTTON = () => {
+            if (!WORKERS) {
+                ME.updateButton();
+                return;
+            }
 
-                                                NEW_STATS.bytesReceived += chunk.length;
-                                                ++NEW_STATS.chunksReceived;
-                                            }
-                                            catch (e) {
-                                                e = err;
-                                            }
-                                        }
-                                    }
+            if (buttonUpdate) {
+                return;
+            }
 
-                                    const SOURCE_ADDR: vsp_contracts.SocketAddress = {
-                                        addr: TO.remoteAddress,
-                                        port: TO.remotePort,
-                                    };
-                                    const TARGET_ADDR: vsp_contracts.SocketAddress = {
-                                        addr: from.remoteAddress,
-                                        port: from.remotePort,
-                                    };
-
-                                    const NEW_TRACE_ENTRY: vsp_contracts.TraceEntry = {
-                                        chunk: chunk,
-                                        chunkSend: chunkSend,
-                                        destination: vsp_contracts.ProxyDestination.TargetToProxy,
-                                        error: err,
-                                        session: SESSION,
-                                        source: SOURCE_ADDR,
-                                        sourceIndex: i,
-                                        target: TARGET_ADDR,
-                                        targetIndex: 0,
-                                        time: NOW,
-                                    };
-
-                                    NEW_STATS.lastChunks.received = NEW_TRACE_ENTRY;
-
-                                    ME.updateButton();
-
-                                    HANDLE_TRACE_ENTRY(NEW_TRACE_ENTRY);
-
-                                    ME.emit('new_trace_entry',
-                                            NEW_TRACE_ENTRY);
-                                }
-                                catch (e) {
-                                    HANDLE_ERROR(e, from);
-                                }
-                            });
+            buttonUpdate = setTimeout(() => {
+                buttonUpdate = null;
 
-                            ENTRIES_AND_SOCKETS.push(NEW_TO);
-                        });
+                ME.updateButton();
+            }, BUTTON_UPDATE_INTERVAL);
+        };
 
-                        from.once('end', () => {
-                            from.end();
-                        });
+        // keeps the order of the entries in the output,
+        // while their hex dumps are created in worker threads
+        let outputQueue = Promise.resolve();
+        const APPEND_TO_OUTPUT = (entry: vsp_contracts.TraceEntry) => {
+            const TEXT = WORKERS.hexDump([
+                entry.chunk,
+                vsp_trace.isChunkModified(entry) ? entry.originalChunk : null,
+            ], ME.hexWidth).then((dumps) => {
+                return vsp_trace.formatTraceEntry(ME.name, entry, (chunk) => {
+                    return chunk === entry.chunk ? dumps[0] : dumps[1];
+                });
+            }, (err) => {
+                console.trace('[Proxy] proxy.ProxyBase.start(APPEND_TO_OUTPUT): ' +
+                              vsp_helpers.toStringSafe(err));
 
-                        from.on('data', async function(chunk) {
-                            ENTRIES_AND_SOCKETS.forEach((t, index) => {
-                                try {
-                                    const NOW = Moment.utc();
+                return ME.traceEntryToString(entry);
+            });
 
-                                    chunk = HANDLE_CHUNK(
-                                        chunk, vsp_contracts.ProxyDestination.ProxyToTarget
-                                    );
+            outputQueue = outputQueue.then(() => TEXT).then((text) => {
+                try {
+                    ME.controller.outputChannel.append(text);
+                }
+                catch (e) {
+                    console.trace('[Proxy] proxy.ProxyBase.start(write to output): ' +
+                                  vsp_helpers.toStringSafe(e));
+                }
+            });
+        };
 
-                                    let err: any;
-                                    let chunkSend = false;
-                                    if (chunk) {
-                                        try {
-                                            t.socket.write(chunk);  // send "request"
+        const NEW_STATS: ProxyStatistics = {
+            bytesReceived: 0,
+            bytesSend: 0,
+            chunksReceived: 0,
+            chunksSend: 0,
+            lastChunks: {},
+        };
+
+        const HANDLE_ERROR = (err: any, source?: any) => {
+            if (!err) {
+                return;
+            }
 
-                                            chunkSend = true;
+            console.trace(`[Proxy] ProxyBase.start(HANDLE_ERROR): ${vsp_helpers.toStringSafe(err)}`);
+        };
 
-                                            NEW_STATS.bytesSend += chunk.length;
-                                            ++NEW_STATS.chunksSend;
-                                        }
-                                        catch (e) {
-                                            err = e;
-                                        }
-                                    }
-                                    
-                                    const SOURCE_ADDR: vsp_contracts.SocketAddress = {
-                                        addr: from.remoteAddress,
-                                        port: from.remotePort,
-                                    };
-                                    const TARGET_ADDR: vsp_contracts.SocketAddress = {
-                                        addr: t.socket.remoteAddress,
-                                        port: t.socket.remotePort,
-                                    };
-
-                                    const NEW_TRACE_ENTRY: vsp_contracts.TraceEntry = {
-                                        chunk: chunk,
-                                        chunkSend: chunkSend,
-                                        destination: vsp_contracts.ProxyDestination.ProxyToTarget,
-                                        error: err,
-                                        session: SESSION,
-                                        source: SOURCE_ADDR,
-                                        sourceIndex: 0,
-                                        target: TARGET_ADDR,
-                                        targetIndex: index,
-                                        time: NOW,
-                                    };
-
-                                    NEW_STATS.lastChunks.send = NEW_TRACE_ENTRY;
-
-                                    ME.updateButton();
-
-                                    HANDLE_TRACE_ENTRY(NEW_TRACE_ENTRY);
-
-                                    ME.emit('new_trace_entry',
-                                            NEW_TRACE_ENTRY);
-                                }
-                                catch (e) {
-                                    HANDLE_ERROR(e, t.socket);
-                                }
-                            });
-                        });
-                    }
-                    catch (e) {
-                        HANDLE_ERROR(e, newServer);
+        // defines the 'sessionState' property
+        // of script arguments
+        const DEFINE_SESSION_STATE = (args: vsp_contracts.SessionScriptArguments, script: string) => {
+            const ID = args.session ? args.session.id : undefined;
+
+            Object.defineProperty(args, 'sessionState', {
+                get: () => {
+                    const STATES = ME._sessionStates[ID];
+
+                    return STATES ? STATES[script] : undefined;
+                },
+                set: (newValue) => {
+                    const STATES = ME._sessionStates[ID];
+                    if (STATES) {
+                        STATES[script] = newValue;
                     }
+                },
+            });
+        };
+
+        const HANDLE_TRACE_ENTRY = (newEntry: vsp_contracts.TraceEntry) => {
+            if (!newEntry) {
+                return;
+            }
+
+            switch (newEntry.destination) {
+                case vsp_contracts.ProxyDestination.ProxyToTarget:
+                    NEW_STATS.lastChunks.send = newEntry;
+                    break;
+
+                case vsp_contracts.ProxyDestination.TargetToProxy:
+                    NEW_STATS.lastChunks.received = newEntry;
+                    break;
+            }
+
+            const TRACE = ME._trace;
+
+            let appendToTrace = true;
+                                // trace handler
+            if (handleTrace) {
+                const ARGS: vsp_contracts.TraceHandlerModuleExecutorArguments = {
+                    config: CFG,
+                    context: ME.controller.context,
+                    entry: newEntry,
+                    globals: GLOBALS,
+                    globalState: ME._globalScriptState,
+                    options: handleTraceOptions,
+                    outputChannel: ME.controller.outputChannel,
+                    packageFile: PKG_FILE,
+                    save: appendToTrace,
+                    session: newEntry.session,
+                    sessionState: undefined,
+                    state: undefined,
+                    trace: TRACE ? TRACE.entries : null,
+                };
+
+                // ARGS.state
+                Object.defineProperty(ARGS, 'state', {
+                    get: () => handleTraceState,
+                    set: (newValue) => {
+                        handleTraceState = newValue;
+                    },
                 });
 
-                newServer.once('error', (err) => {
-                    if (err) {
-                        COMPLETED(err);
+                // ARGS.sessionState
+                DEFINE_SESSION_STATE(ARGS, 'traceHandler');
+
+                handleTrace(ARGS);
+
+                appendToTrace = vsp_helpers.toBooleanSafe(
+                    ARGS.save,
+                    true
+                );
+            }
+
+            // append to trace
+            if (appendToTrace && TRACE) {
+                try {
+                    TRACE.push(newEntry);
+                }
+                catch (e) {
+                    console.trace('[Proxy] proxy.ProxyBase.start(append trace): ' +
+                                  vsp_helpers.toStringSafe(e));
+                }
+            }
+
+            // write to trace file
+            const TRACE_FILE = ME._traceFile;
+            if (appendToTrace && TRACE_FILE) {
+                try {
+                    TRACE_FILE.write(newEntry);
+                }
+                catch (e) {
+                    console.trace('[Proxy] proxy.ProxyBase.start(write trace file): ' +
+                                  vsp_helpers.toStringSafe(e));
+                }
+            }
+
+            UPDATE_BUTTON();
+
+            // write to output
+            if (ME.isTracing) {
+                if (WRITE_TO_OUTPUT) {
+                    if (WORKERS) {
+                        APPEND_TO_OUTPUT(newEntry);
+                    }
+                    else {
+                        try {
+                            ME.controller.outputChannel.append(
+                                ME.traceEntryToString(newEntry),
+                            );
+                        }
+                        catch (e) {
+                            console.trace('[Proxy] proxy.ProxyBase.start(write to output): ' +
+                                          vsp_helpers.toStringSafe(e));
+                        }
+                    }
+                }
+            }
+
+            ME.emit('new_trace_entry',
+                    newEntry);
+        };
+
+        const REWRITE_RULES = vsp_rewrite.toRewriteRules(ME.entry.rewrite);
+
+        const HANDLE_CHUNK = (chunk: Buffer, destination: vsp_contracts.ProxyDestination,
+                              session: TraceSession, originalChunk?: Buffer): HandledChunk | PromiseLike<HandledChunk> => {
+            // rewrite rules
+            const REWRITTEN = vsp_rewrite.rewriteChunk(REWRITE_RULES, chunk, destination);
+            const IS_REWRITTEN = REWRITTEN.rewrites.length > 0;
+
+            let newCunk = REWRITTEN.chunk;
+
+            const CREATE_RESULT = (): HandledChunk => {
+                return {
+                    chunk: newCunk,
+                    originalChunk: originalChunk || chunk,
+                    rewrites: IS_REWRITTEN ? REWRITTEN.rewrites : undefined,
+                };
+            };
+
+            // chunk handlers, one after another,
+            // beginning at index 'i'
+            const HANDLE_NEXT = (i: number): HandledChunk | PromiseLike<HandledChunk> => {
+                for (; i < CHUNK_HANDLERS.length; i++) {
+                    if (!newCunk) {
+                        break;  // dropped
+                    }
+
+                    const CH = CHUNK_HANDLERS[i];
+                    if (!CH.handleChunk) {
+                        continue;
+                    }
+
+                    const ARGS: vsp_contracts.ChunkHandlerModuleExecutorArguments = {
+                        chunk: newCunk,
+                        config: CFG,
+                        context: ME.controller.context,
+                        destination: destination,
+                        globals: GLOBALS,
+                        globalState: ME._globalScriptState,
+                        options: CH.options,
+                        outputChannel: ME.controller.outputChannel,
+                        packageFile: PKG_FILE,
+                        session: session,
+                        sessionState: undefined,
+                        state: undefined,
+                    };
+
+                    // ARGS.state
+                    Object.defineProperty(ARGS, 'state', {
+                        get: () => CH.state,
+                        set: (newValue) => {
+                            CH.state = newValue;
+                        },
+                    });
+
+                    // ARGS.sessionState
+                    DEFINE_SESSION_STATE(ARGS, `chunkHandler[${i}]`);
+
+                    const RESULT = CH.handleChunk(ARGS);
+                    if (vsp_helpers.isPromiseLike(RESULT)) {
+                        // wait for handler
+                        const NEXT_INDEX = i + 1;
+
+                        return Promise.resolve(RESULT).then(() => {
+                            newCunk = ARGS.chunk;
+
+                            return HANDLE_NEXT(NEXT_INDEX);
+                        });
                     }
+
+                    newCunk = ARGS.chunk;
+                }
+
+                return CREATE_RESULT();
+            };
+
+            if (WORKERS && CHUNK_HANDLERS.length > 0) {
+                if (!newCunk) {
+                    return CREATE_RESULT();
+                }
+
+                return WORKERS.handleChunk(newCunk, destination, session).then((handledChunk) => {
+                    newCunk = handledChunk;
+
+                    return CREATE_RESULT();
                 });
-                
-                newServer.listen(SOURCE, () => {
-                    ME._statistics = NEW_STATS;
-                    ME._globalScriptState = {};
-                    ME._traceWriterState = vsp_helpers.cloneObject(ME.entry.traceWriterState);
-                    ME._server = newServer;
+            }
+
+            return HANDLE_NEXT(0);
+        };
 
-                    ME.updateButton();
-                    ME._button.color = ME.defaultButtonColor;
+        const BALANCER = new vsp_balancer.TargetBalancer(ME.entry.mode, TARGETS.length, (i) => {
+            return !ME._health || ME._health.isHealthy(i);
+        });
 
-                    ME._button.show();
+        const SEND_BACK = (targetIndex: number) => {
+            if (!BALANCER.isMirror) {
+                return true;  // answers come from the selected target only
+            }
 
-                    COMPLETED(null, true);
+            if (!Array.isArray(receiveChunksFrom)) {
+                return vsp_helpers.toBooleanSafe(receiveChunksFrom);
+            }
+
+            return receiveChunksFrom.indexOf(targetIndex) > -1;
+        };
+
+        // traffic shaping
+        const SHAPING_OPTIONS = vsp_shaping.toTrafficShapingOptions(ME.entry.shaping);
+        const PROXY_SHAPER = SHAPING_OPTIONS && 'proxy' === SHAPING_OPTIONS.scope ?
+            new vsp_shaping.TrafficShaper(SHAPING_OPTIONS) : null;
+
+        const CREATE_SHAPER = () => {
+            if (!SHAPING_OPTIONS) {
+                return null;
+            }
+
+            return PROXY_SHAPER || new vsp_shaping.TrafficShaper(SHAPING_OPTIONS);
+        };
+
+        // fault injection
+        const FAULT_OPTIONS = vsp_faults.toFaultInjectionOptions(ME.entry.faults);
+        const FAULTS = new vsp_faults.FaultInjector(FAULT_OPTIONS || null, () => {
+            return !!FAULT_OPTIONS && ME._faultsEnabled;
+        });
+
+        // invokes a hook of the lifecycle handler
+        // and returns its arguments or (null) if not defined
+        const INVOKE_LIFECYCLE_HOOK = (hook: keyof vsp_contracts.LifecycleHandlerModule,
+                                       session: TraceSession, source: vsp_contracts.SocketAddress,
+                                       args?: any): any => {
+            const HOOK: vsp_contracts.LifecycleHandlerModuleExecutor<any> = lifecycleHandler ?
+                lifecycleHandler[hook] : undefined;
+            if (!HOOK) {
+                return null;
+            }
+
+            const ARGS: vsp_contracts.LifecycleHandlerModuleExecutorArguments = Object.assign({
+                config: CFG,
+                context: ME.controller.context,
+                globals: GLOBALS,
+                globalState: ME._globalScriptState,
+                options: lifecycleHandlerOptions,
+                outputChannel: ME.controller.outputChannel,
+                packageFile: PKG_FILE,
+                protocol: ME.protocol,
+                session: session,
+                sessionState: undefined,
+                source: source,
+                state: undefined,
+            }, args);
+
+            // ARGS.state
+            Object.defineProperty(ARGS, 'state', {
+                get: () => lifecycleHandlerState,
+                set: (newValue) => {
+                    lifecycleHandlerState = newValue;
+                },
+            });
+
+            // ARGS.sessionState
+            DEFINE_SESSION_STATE(ARGS, 'lifecycleHandler');
+
+            HOOK(ARGS);
+
+            return ARGS;
+        };
+
+        const HANDLE_LIFECYCLE = (hook: keyof vsp_contracts.LifecycleHandlerModule,
+                                  session: TraceSession, source: vsp_contracts.SocketAddress,
+                                  args?: any) => {
+            try {
+                INVOKE_LIFECYCLE_HOOK(hook, session, source, args);
+            }
+            catch (e) {
+                HANDLE_ERROR(e);
+            }
+        };
+
+        // selects the targets for a new connection / session
+        // or returns (false), if it has been rejected
+        const SELECT_TARGETS = (session: TraceSession, source: vsp_contracts.SocketAddress): number[] | false => {
+            const SELECTED_TARGETS = BALANCER.select();
+
+            let args: vsp_contracts.LifecycleConnectArguments;
+            try {
+                args = INVOKE_LIFECYCLE_HOOK('onConnect', session, source, {
+                    accept: true,
+                    availableTargets: TARGETS.map(t => {
+                        return {
+                            addr: t.host,
+                            port: t.port,
+                        };
+                    }),
+                    targets: SELECTED_TARGETS.slice(),
                 });
             }
             catch (e) {
-                COMPLETED(e);
+                HANDLE_ERROR(e);
+
+                args = <any>{
+                    accept: false,  // reject on error
+                };
+            }
+
+            if (!args) {
+                return SELECTED_TARGETS;
+            }
+
+            if (!vsp_helpers.toBooleanSafe(args.accept, true)) {
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Connection from '${source.addr}:${source.port}' has been rejected.`
+                );
+
+                return false;
             }
+
+            return vsp_helpers.distinctArray(
+                vsp_helpers.asArray(args.targets).map(x => {
+                    return parseInt( vsp_helpers.toStringSafe(x).trim() );
+                }).filter(x => !isNaN(x) && x >= 0 && x < TARGETS.length),
+            );
+        };
+
+        // breakpoints
+        const BREAKPOINTS = vsp_breakpoints.toBreakpointRules(ME.entry.breakpoints);
+
+        const CREATE_INTERCEPT_STREAM = (destination: vsp_contracts.ProxyDestination,
+                                         session: vsp_breakpoints.BreakpointSession,
+                                         onPause?: (paused: boolean) => void) => {
+            return new vsp_breakpoints.InterceptStream(BREAKPOINTS, destination, session, async (hit) => {
+                const DECISION = await vsp_breakpoints.showBreakpoint(hit, ME.name, ME.hexWidth);
+
+                if ('drop' === DECISION.action) {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Chunk with ${hit.chunk.length} byte(s) has been dropped at breakpoint '${hit.rule.name}'.`
+                    );
+                }
+
+                return DECISION;
+            }, onPause);
+        };
+
+        const IS_STARTED = await ME.startServer({
+            balancer: BALANCER,
+            createInterceptStream: CREATE_INTERCEPT_STREAM,
+            createShaper: CREATE_SHAPER,
+            faults: FAULTS,
+            handleChunk: HANDLE_CHUNK,
+            handleError: HANDLE_ERROR,
+            handleLifecycle: HANDLE_LIFECYCLE,
+            handleTraceEntry: HANDLE_TRACE_ENTRY,
+            mock: MOCK,
+            selectTargets: SELECT_TARGETS,
+            sendBack: SEND_BACK,
+            statistics: NEW_STATS,
+            targets: TARGETS,
         });
+
+        if (IS_STARTED) {
+            ME._statistics = NEW_STATS;
+            ME._globalScriptState = {};
+            ME._targets = TARGETS;
+            ME._traceWriterState = vsp_helpers.cloneObject(ME.entry.traceWriterState);
+
+            if (MOCK) {
+                vsp_helpers.tryDispose(ME._health);
+                ME._health = null;
+
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Answering ${MOCK.count} recorded request(s) of '${MOCK.options.file}' (${MOCK.options.match}).`
+                );
+            }
+            else {
+                ME.startHealthChecks();
+            }
+
+            ME.stopScriptWatchers();
+            WATCH_SCRIPTS();
+
+            ME.updateButton();
+            ME._button.color = ME.defaultButtonColor;
+
+            ME._button.show();
+        }
+
+        return IS_STARTED;
     }
 
     /**
-     * Stops the proxy.
-     * 
-     * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
+     * Starts the health checks for the current targets.
      */
-    public stop() {
+    protected startHealthChecks() {
         const ME = this;
 
-        return new Promise<boolean>((resolve, reject) => {
-            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+        vsp_helpers.tryDispose(ME._health);
+        ME._health = null;
 
-            const OLD_SERVER = ME._server;
-            if (!OLD_SERVER) {
-                COMPLETED(null, false);
-                return;
-            }
+        const TARGETS = ME._targets || [];
 
-            try {
-                OLD_SERVER.close(() => {
-                    ME._button.hide();
-                    ME.updateButton();
+        const OPTIONS = TARGETS.map(t => {
+            return vsp_health.toHealthCheckOptions(t.healthCheck, ME.entry.healthCheck);
+        });
+        if (!OPTIONS.some(o => false !== o)) {
+            return;  // nothing to check
+        }
 
-                    ME._server = null;
-                    ME._globalScriptState = null;
-                    ME._traceWriterState = null;
+        const NEW_HEALTH = new vsp_health.HealthChecker(OPTIONS, (i, opts) => {
+            return ME.probeTarget(TARGETS[i], i, opts);
+        });
 
-                    COMPLETED(null, true);
-                });
+        NEW_HEALTH.on('changed', (state: vsp_health.TargetHealth) => {
+            const TARGET = TARGETS[state.index];
+
+            try {
+                if (state.healthy) {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Target [${state.index}] '${TARGET.host}:${TARGET.port}' is healthy again.`
+                    );
+                }
+                else {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Target [${state.index}] '${TARGET.host}:${TARGET.port}' is unhealthy: ${vsp_helpers.toStringSafe(state.lastError)}`
+                    );
+                }
             }
             catch (e) {
-                COMPLETED(e);
+                console.trace('[Proxy] proxy.ProxyBase.startHealthChecks(): ' +
+                              vsp_helpers.toStringSafe(e));
             }
+
+            ME.updateButton();
         });
+
+        ME._health = NEW_HEALTH;
+
+        NEW_HEALTH.start();
     }
 
     /**
-     * Gets the current trace.
+     * Checks the health of a target.
+     * 
+     * @param {vsp_helpers.TargetAddress} target The target.
+     * @param {number} index The zero-based index of the target.
+     * @param {vsp_health.HealthCheckOptions} options The options.
+     * 
+     * @return {Promise<any>} The promise, which is rejected if check failed.
      */
-    public get trace(): vsp_contracts.TraceEntry[] {
-        return this._trace;
-    }
+    protected abstract probeTarget(target: vsp_helpers.TargetAddress, index: number,
+                                   options: vsp_health.HealthCheckOptions): Promise<any>;
 
     /**
-     * Converts a trace entry to a string.
+     * Starts the underlying server.
      * 
-     * @param {vsp_contracts.TraceEntry} entry The entry to convert.
+     * @param {ProxyContext} context The context with the logic for the connections.
      * 
-     * @return {string} The entry as string.
+     * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
      */
-    public traceEntryToString(entry: vsp_contracts.TraceEntry) {
+    protected abstract startServer(context: ProxyContext): Promise<boolean>;
+
+    /**
+     * Stops the proxy.
+     * 
+     * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
+     */
+    public async stop() {
         const ME = this;
 
-        let hexWidth = parseInt( vsp_helpers.toStringSafe(ME.controller.config.hexWidth) );
-        if (isNaN(hexWidth)) {
-            hexWidth = 16;
-        }
-        
-        let line = '';
-        const APPEND_LINE = (val: any) => {
-            line += vsp_helpers.toStringSafe(val);
-            line += "\n";
-        };
+        const IS_STOPPED = await ME.stopServer();
+        if (IS_STOPPED) {
+            vsp_helpers.tryDispose(ME._health);
+            ME._health = null;
 
-        if (entry) {
-            APPEND_LINE(`[TRACE] '${ME.name}': ${toSocketAddressPipeString(entry)}`);
-            if (entry.chunk) {
-                APPEND_LINE( Hexy.hexy(entry.chunk, { width: hexWidth }) );    
-            }
+            ME._button.hide();
+            ME.updateButton();
+
+            ME.stopMock();
+            ME.stopScriptWatchers();
+            ME.stopWorkers();
+
+            ME._globalScriptState = null;
+            ME._sessionStates = {};
+            ME._traceWriterState = null;
         }
 
-        return line;
+        return IS_STOPPED;
     }
 
     /**
-     * Toggles trace state.
+     * Stops the underlying server.
      * 
-     * @return {Promise<TraceEntry[]>} The promise with the current trace.
+     * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
      */
-    public async toggleTrace() {
-        const ME = this;
+    protected abstract stopServer(): Promise<boolean>;
 
-        let trace: vsp_contracts.TraceEntry[];
-        
-        if (ME.isTracing) {
-            trace = ME.trace;
+    /**
+     * Closes the connections to the mocked targets.
+     */
+    protected stopMock() {
+        const MOCK = this._mock;
+        this._mock = null;
 
-            if (!vsp_helpers.isEmptyString(ME.entry.traceWriter)) {
-                const ARGS: vsp_contracts.TraceWriterModuleExecutorArguments = {
-                    config: vsp_helpers.cloneObject(ME.controller.config),
-                    context: ME.controller.context,
-                    globals: vsp_helpers.cloneObject(
-                        ME.controller.config.globals
-                    ),
-                    globalState: ME._globalScriptState,
-                    options: vsp_helpers.cloneObject(
-                        ME.entry.traceWriterOptions,
-                    ),
-                    outputChannel: ME.controller.outputChannel,
-                    packageFile: vsp_helpers.cloneObject(ME.controller.packageFile),
-                    state: undefined,
-                    trace: trace,
-                };
+        vsp_helpers.tryDispose(MOCK);
+    }
 
-                // ARGS.state
-                Object.defineProperty(ARGS, 'state', {
-                    get: () => ME._traceWriterState,
-                    set: (newValue) => {
-                        ME._traceWriterState = newValue;
+    /**
+     * Stops watching the handler scripts.
+     */
+    protected stopScriptWatchers() {
+        const WATCHERS = this._scriptWatchers;
+        this._scriptWatchers = [];
+
+        WATCHERS.forEach(w => {
+            vsp_helpers.tryDispose(w);
+        });
+    }
+
+    /**
+     * Stops the worker threads.
+     */
+    protected stopWorkers() {
+        const WORKERS = this._workers;
+        this._workers = null;
+
+        vsp_helpers.tryDispose(WORKERS);
+    }
+
+    /**
+     * Gets the current trace.
+     */
+    public get trace(): vsp_contracts.TraceEntry[] {
+        const TRACE = this._trace;
+
+        return TRACE ? TRACE.entries : null;
+    }
+
+    /**
+     * Converts a trace entry to a string.
+     * 
+     * @param {vsp_contracts.TraceEntry} entry The entry to convert.
+     * 
+     * @return {string} The entry as string.
+     */
+    public traceEntryToString(entry: vsp_contracts.TraceEntry) {
+        const HEX_WIDTH = this.hexWidth;
+
+        return vsp_trace.formatTraceEntry(this.name, entry, (chunk) => {
+            return Hexy.hexy(chunk, { width: HEX_WIDTH });
+        });
+    }
+
+    /**
+     * Toggles fault injection.
+     * 
+     * @return {boolean} Faults are injected now or not.
+     */
+    public toggleFaults() {
+        const ME = this;
+
+        if (!ME.hasFaults) {
+            throw new Error(`No fault injection settings defined for proxy '${ME.name}'!`);
+        }
+
+        ME._faultsEnabled = !ME._faultsEnabled;
+
+        ME.controller.outputChannel.appendLine(
+            `[Proxy] '${ME.name}': Fault injection has been ${ME._faultsEnabled ? 'enabled' : 'disabled'}.`
+        );
+
+        ME.updateButton();
+
+        return ME._faultsEnabled;
+    }
+
+    /**
+     * Toggles trace state.
+     * 
+     * @return {Promise<TraceEntry[]>} The promise with the current trace.
+     */
+    public async toggleTrace() {
+        const ME = this;
+
+        let trace: vsp_contracts.TraceEntry[];
+        
+        if (ME.isTracing) {
+            trace = ME.trace;
+
+            let writeTrace = !vsp_helpers.isEmptyString(ME.entry.traceWriter);
+            if (writeTrace && !vsp_trace.isBuiltInTraceWriter(ME.entry.traceWriter)) {
+                // the script could have been changed since the start
+                writeTrace = await vsp_scripts.requestTrust(
+                    ME.controller.context, [ ME.entry.traceWriter ], ME.name,
+                );
+                if (!writeTrace) {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Trace writer '${ME.entry.traceWriter}' is not trusted, so the trace has not been written.`
+                    );
+                }
+            }
+
+            if (writeTrace) {
+                const ARGS: vsp_contracts.TraceWriterModuleExecutorArguments = {
+                    config: vsp_helpers.cloneObject(ME.controller.config),
+                    context: ME.controller.context,
+                    globals: vsp_helpers.cloneObject(
+                        ME.controller.config.globals
+                    ),
+                    globalState: ME._globalScriptState,
+                    options: vsp_helpers.cloneObject(
+                        ME.entry.traceWriterOptions,
+                    ),
+                    outputChannel: ME.controller.outputChannel,
+                    packageFile: vsp_helpers.cloneObject(ME.controller.packageFile),
+                    state: undefined,
+                    trace: trace,
+                };
+
+                // ARGS.state
+                Object.defineProperty(ARGS, 'state', {
+                    get: () => ME._traceWriterState,
+                    set: (newValue) => {
+                        ME._traceWriterState = newValue;
                     },
                 });
 
-                const WRITER_MODULE = vsp_helpers.loadModule<vsp_contracts.TraceWriterModule>(ME.entry.traceWriter);
+                const WRITER_MODULE = vsp_trace.getBuiltInTraceWriter(ME.entry.traceWriter, {
+                    name: ME.name,
+                    port: ME.port,
+                    protocol: ME.protocol,
+                }) || ME.loadScript<vsp_contracts.TraceWriterModule>(ME.entry.traceWriter);
                 if (WRITER_MODULE) {
                     const WRITE_TRACE = WRITER_MODULE.writeTrace;
                     if (WRITE_TRACE) {
@@ -965,10 +1542,72 @@ export class TcpProxy extends Events.EventEmitter implements vscode.Disposable {
             
             await ME.openTraceInNewTab();
 
+            const OLD_TRACE = ME._trace;
             ME._trace = null;
+
+            const OLD_TRACE_FILE = ME._traceFile;
+            ME._traceFile = null;
+
+            vsp_helpers.tryDispose(OLD_TRACE_FILE);
+
+            if (OLD_TRACE) {
+                if (OLD_TRACE.spilled > 0) {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': ${OLD_TRACE.spilled} trace entries have been spilled to '${OLD_TRACE.spillFile}'.`
+                    );
+                }
+                if (OLD_TRACE.dropped > 0) {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': ${OLD_TRACE.dropped} trace entries have been dropped.`
+                    );
+                }
+
+                vsp_helpers.tryDispose(OLD_TRACE);
+            }
         }
         else {
-            trace = ME._trace = [];
+            const NEW_TRACE = new vsp_trace.TraceBuffer(
+                vsp_trace.toTraceLimits(ME.entry, ME.controller.config),
+                vsp_trace.getSpillFile(ME.port),
+                ME.protocol,
+            );
+
+            NEW_TRACE.on('limitReached', () => {
+                if (ME._trace !== NEW_TRACE) {
+                    return;
+                }
+
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Trace limit has been reached, so tracing is stopped.`
+                );
+
+                ME.toggleTrace().then(() => {
+                }, (err) => {
+                    console.trace('[Proxy] proxy.ProxyBase.toggleTrace(limitReached): ' +
+                                  vsp_helpers.toStringSafe(err));
+                });
+            });
+            NEW_TRACE.on('spill', (file: string) => {
+                ME.controller.outputChannel.appendLine(
+                    `[Proxy] '${ME.name}': Trace limit has been reached, so the oldest entries are spilled to '${file}'.`
+                );
+            });
+
+            const TRACE_FILE_OPTIONS = vsp_trace.toTraceFileOptions(ME.entry.traceFile);
+            if (false !== TRACE_FILE_OPTIONS) {
+                const NEW_TRACE_FILE = new vsp_trace.TraceFileWriter(TRACE_FILE_OPTIONS, ME.protocol);
+
+                NEW_TRACE_FILE.on('opened', (file: string) => {
+                    ME.controller.outputChannel.appendLine(
+                        `[Proxy] '${ME.name}': Trace is written to '${file}'.`
+                    );
+                });
+
+                ME._traceFile = NEW_TRACE_FILE;
+            }
+
+            ME._trace = NEW_TRACE;
+            trace = NEW_TRACE.entries;
         }
 
         ME.updateButton();
@@ -1001,7 +1640,7 @@ Received: ${STATS.chunksReceived} chunk(s) / ${STATS.bytesReceived} byte(s)
             if (LAST_SEND) {
                 tooltip += `
 Last send: ${LAST_SEND.time.format('YYYY-MM-DD HH:mm:ss.SSS')}
-${toSocketAddressPipeString(LAST_SEND)}
+${vsp_trace.toSocketAddressPipeString(LAST_SEND)}
 ${LAST_SEND.chunk ? FileSize(LAST_SEND.chunk.length) : '---'}
 `;
             }
@@ -1010,12 +1649,46 @@ ${LAST_SEND.chunk ? FileSize(LAST_SEND.chunk.length) : '---'}
             if (LAST_RECEIVE) {
                 tooltip += `
 Last receive: ${LAST_RECEIVE.time.format('YYYY-MM-DD HH:mm:ss.SSS')}
-${toSocketAddressPipeString(LAST_RECEIVE)}
+${vsp_trace.toSocketAddressPipeString(LAST_RECEIVE)}
 ${LAST_RECEIVE.chunk ? FileSize(LAST_RECEIVE.chunk.length) : '---'}
 `;
             }
         }
 
+        const HEALTH = this._health;
+        const TARGETS = this._targets;
+        if (HEALTH && TARGETS) {
+            const UNHEALTHY = HEALTH.states.filter(s => !s.healthy);
+            if (UNHEALTHY.length > 0) {
+                tooltip += `
+Unhealthy target(s):
+${UNHEALTHY.map(s => `[${s.index}] '${TARGETS[s.index].host}:${TARGETS[s.index].port}': ${vsp_helpers.toStringSafe(s.lastError)}`).join("\n")}
+`;
+            }
+        }
+
+        const TRACE = this._trace;
+        if (TRACE) {
+            tooltip += `
+Trace: ${TRACE.entries.length} entries / ${FileSize(TRACE.bytes)}
+`;
+
+            if (TRACE.dropped > 0) {
+                tooltip += `Dropped: ${TRACE.dropped} entries
+`;
+            }
+            if (TRACE.spilled > 0) {
+                tooltip += `Spilled: ${TRACE.spilled} entries to '${TRACE.spillFile}'
+`;
+            }
+        }
+
+        if (this.hasFaults) {
+            tooltip += `
+Fault injection: ${this.isInjectingFaults ? 'enabled' : 'disabled'}
+`;
+        }
+
         text = text.trim();
         tooltip = tooltip.trim();
 
@@ -1033,3 +1706,993 @@ ${LAST_RECEIVE.chunk ? FileSize(LAST_RECEIVE.chunk.length) : '---'}
         }
     }
 }
+
+/**
+ * A TCP proxy.
+ */
+export class TcpProxy extends ProxyBase {
+    private _server: Net.Server;
+    private _targetTlsOptions: (TLS.ConnectionOptions | false)[] = [];
+
+    /** @inheritdoc */
+    public dispose() {
+        super.dispose();
+
+        const OLD_SERVER = this._server;
+        if (OLD_SERVER) {
+            OLD_SERVER.close();
+        }
+
+        this._server = null;
+    }
+
+    /** @inheritdoc */
+    public get isRunning() {
+        return !!this._server;
+    }
+
+    /** @inheritdoc */
+    protected probeTarget(target: vsp_helpers.TargetAddress, index: number,
+                          options: vsp_health.HealthCheckOptions) {
+        const TLS_CONNECTION_OPTIONS = this._targetTlsOptions[index];
+
+        return vsp_health.probeSocket(() => {
+            return TLS_CONNECTION_OPTIONS ?
+                TLS.connect(TLS_CONNECTION_OPTIONS) :
+                Net.createConnection({
+                    host: target.host,
+                    port: target.port,
+                });
+        }, TLS_CONNECTION_OPTIONS ? 'secureConnect' : 'connect', options);
+    }
+
+    /** @inheritdoc */
+    public get protocol() {
+        return 'tcp';
+    }
+
+    /** @inheritdoc */
+    protected async startServer(context: ProxyContext) {
+        const ME = this;
+
+        if (ME._server) {
+            return false;
+        }
+
+        const TLS_OPTIONS = await vsp_tls.createServerOptions(ME.entry.tls);
+
+        const TARGETS = context.targets;
+
+        const TARGET_TLS_OPTIONS: (TLS.ConnectionOptions | false)[] = [];
+        for (const T of TARGETS) {
+            TARGET_TLS_OPTIONS.push(
+                await vsp_tls.createConnectionOptions(T),
+            );
+        }
+
+        return await new Promise<boolean>((resolve, reject) => {
+            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+            if (ME._server) {
+                COMPLETED(null, false);
+                return;
+            }
+
+            try {
+                const SOURCE = vsp_helpers.getPortSafe(ME.port, 8081);
+
+                const BALANCER = context.balancer;
+                const HANDLE_CHUNK = context.handleChunk;
+                const HANDLE_ERROR = context.handleError;
+                const HANDLE_TRACE_ENTRY = context.handleTraceEntry;
+                const NEW_STATS = context.statistics;
+
+                let newServer: Net.Server;
+
+                const HANDLE_CONNECTION = (from: Net.Socket) => {
+                    try {
+                        const SESSION = {
+                            id: UUID.v4(),
+                            time: Moment.utc(),
+                        };
+
+                        from.on('error', (err) => {
+                            HANDLE_ERROR(err, from);
+                        });
+
+                        const REFUSED = context.faults.refuse();
+                        if (REFUSED) {
+                            HANDLE_TRACE_ENTRY({
+                                chunk: null,
+                                chunkSend: false,
+                                destination: vsp_contracts.ProxyDestination.ProxyToTarget,
+                                fault: REFUSED,
+                                session: SESSION,
+                                source: {
+                                    addr: from.remoteAddress,
+                                    port: from.remotePort,
+                                },
+                                sourceIndex: 0,
+                                target: {
+                                    addr: from.localAddress,
+                                    port: from.localPort,
+                                },
+                                targetIndex: -1,
+                                time: Moment.utc(),
+                            });
+
+                            from.destroy();
+                            return;
+                        }
+
+                        const CLIENT_ADDR: vsp_contracts.SocketAddress = {
+                            addr: from.remoteAddress,
+                            port: from.remotePort,
+                        };
+
+                        // the 'onConnect' hook can already use the session state
+                        ME.beginSession(SESSION.id);
+
+                        const SELECTED_TARGETS = context.selectTargets(SESSION, CLIENT_ADDR);
+                        if (false === SELECTED_TARGETS) {
+                            ME.endSession(SESSION.id);
+
+                            from.destroy();  // rejected
+                            return;
+                        }
+
+                        const FAULTS = context.faults.createConnection();
+                        const SHAPER = context.createShaper();
+
+                        const ENTRIES_AND_SOCKETS: EntryWithSocket[] = [];
+
+                        // closes the connection to the client
+                        // and all targets immediately
+                        const RESET = () => {
+                            from.destroy();
+
+                            ENTRIES_AND_SOCKETS.forEach(t => {
+                                t.socket.destroy();
+                            });
+                        };
+
+                        const BREAKPOINT_SESSION: vsp_breakpoints.BreakpointSession = {
+                            client: {
+                                addr: from.remoteAddress,
+                                port: from.remotePort,
+                            },
+                            id: SESSION.id,
+                        };
+
+                        const PAUSE_FROM = createPauser(from);
+
+                        const UPSTREAM = context.createInterceptStream(
+                            vsp_contracts.ProxyDestination.ProxyToTarget, BREAKPOINT_SESSION, PAUSE_FROM,
+                        );
+
+                        // connects to the first of a list of candidates
+                        // and stores the socket in 'ENTRIES_AND_SOCKETS'
+                        const CONNECT_TO = (candidates: number[], slot: number) => {
+                            const i = candidates[0];
+                            const te = TARGETS[i];
+
+                            const TLS_CONNECTION_OPTIONS = TARGET_TLS_OPTIONS[i];
+
+                            let to: Net.Socket;
+                            if (context.mock) {
+                                to = <any>context.mock.createSocket(CLIENT_ADDR);  // answer with recorded trace
+                            }
+                            else {
+                                to = TLS_CONNECTION_OPTIONS ?
+                                    TLS.connect(TLS_CONNECTION_OPTIONS) :  // encrypt data for target
+                                    Net.createConnection({
+                                        host: te.host,
+                                        port: te.port,
+                                    });
+                            }
+                            const TO = to;
+                            const PAUSE_TO = createPauser(TO);
+
+                            const NEW_TO: EntryWithSocket = {
+                                downstream: new vsp_shaping.ShapedStream(
+                                    SHAPER, vsp_contracts.ProxyDestination.TargetToProxy, PAUSE_TO,
+                                ),
+                                entry: te,
+                                index: i,
+                                intercept: context.createInterceptStream(
+                                    vsp_contracts.ProxyDestination.TargetToProxy, BREAKPOINT_SESSION, PAUSE_TO,
+                                ),
+                                pending: [],
+                                socket: TO,
+                                upstream: new vsp_shaping.ShapedStream(
+                                    SHAPER, vsp_contracts.ProxyDestination.ProxyToTarget, PAUSE_FROM,
+                                ),
+                            };
+
+                            BALANCER.acquire(i);
+                            TO.once('close', () => {
+                                BALANCER.release(i);
+                            });
+
+                            const TO_ADDR: vsp_contracts.SocketAddress = {
+                                addr: te.host,
+                                port: te.port,
+                            };
+
+                            TO.once(TLS_CONNECTION_OPTIONS ? 'secureConnect' : 'connect', () => {
+                                NEW_TO.pending = false;
+
+                                context.handleLifecycle('onTargetConnected', SESSION, CLIENT_ADDR, {
+                                    target: TO_ADDR,
+                                    targetIndex: i,
+                                });
+                            });
+
+                            TO.on('error', (err) => {
+                                HANDLE_ERROR(err, TO);
+
+                                context.handleLifecycle('onTargetError', SESSION, CLIENT_ADDR, {
+                                    error: err,
+                                    target: TO_ADDR,
+                                    targetIndex: i,
+                                });
+
+                                if (false !== NEW_TO.pending && BALANCER.isFailover && candidates.length > 1) {
+                                    // could not connect => try next target
+                                    // and resend the chunks, which have not been delivered yet
+
+                                    const PENDING = NEW_TO.pending;
+                                    NEW_TO.pending = false;
+
+                                    if (!from.destroyed) {
+                                        const NEXT_TO = CONNECT_TO(candidates.slice(1), slot);
+
+                                        PENDING.forEach(chunk => {
+                                            NEXT_TO.socket.write(chunk);
+                                        });
+                                        if (false !== NEXT_TO.pending) {
+                                            NEXT_TO.pending.push(...PENDING);
+                                        }
+                                    }
+                                }
+                            });
+
+                            TO.once('end', () => {
+                                TO.end();
+                            });
+
+                            TO.on('data', function(chunk) {
+                                NEW_TO.intercept.enqueue(chunk, (chunk, originalChunk) => {
+                                    const NOW = Moment.utc();
+
+                                    return whenChunkHandled(() => {
+                                        return HANDLE_CHUNK(
+                                            chunk, vsp_contracts.ProxyDestination.TargetToProxy, SESSION, originalChunk,
+                                        );
+                                    }, (HANDLED) => {
+                                        const CHUNK = HANDLED.chunk;
+
+                                        NEW_TO.downstream.enqueue(CHUNK, (shaping) => {
+                                            try {
+                                                const INJECTED = FAULTS.inject(
+                                                    CHUNK, vsp_contracts.ProxyDestination.TargetToProxy,
+                                                );
+
+                                                let err: any;
+                                                let chunkSend = false;
+                                                if (INJECTED.chunk) {
+                                                    if (context.sendBack(i)) {
+                                                        try {
+                                                            from.write(INJECTED.chunk);  // send "answer"
+
+                                                            chunkSend = true;
+
+                                                            NEW_STATS.bytesReceived += INJECTED.chunk.length;
+                                                            ++NEW_STATS.chunksReceived;
+                                                        }
+                                                        catch (e) {
+                                                            err = e;
+                                                        }
+                                                    }
+                                                }
+
+                                                const SOURCE_ADDR: vsp_contracts.SocketAddress = {
+                                                    addr: TO.remoteAddress,
+                                                    port: TO.remotePort,
+                                                };
+                                                const TARGET_ADDR: vsp_contracts.SocketAddress = {
+                                                    addr: from.remoteAddress,
+                                                    port: from.remotePort,
+                                                };
+
+                                                HANDLE_TRACE_ENTRY({
+                                                    chunk: INJECTED.chunk || CHUNK,
+                                                    chunkSend: chunkSend,
+                                                    destination: vsp_contracts.ProxyDestination.TargetToProxy,
+                                                    error: err,
+                                                    fault: INJECTED.fault,
+                                                    originalChunk: HANDLED.originalChunk,
+                                                    rewrites: HANDLED.rewrites,
+                                                    session: SESSION,
+                                                    shaping: shaping,
+                                                    source: SOURCE_ADDR,
+                                                    sourceIndex: i,
+                                                    target: TARGET_ADDR,
+                                                    targetIndex: 0,
+                                                    time: NOW,
+                                                });
+
+                                                if (FAULTS.isReset) {
+                                                    RESET();
+                                                }
+                                            }
+                                            catch (e) {
+                                                HANDLE_ERROR(e, from);
+                                            }
+                                        });
+                                    }, (err) => {
+                                        HANDLE_ERROR(err, from);
+                                    });
+                                });
+                            });
+
+                            ENTRIES_AND_SOCKETS[slot] = NEW_TO;
+
+                            return NEW_TO;
+                        };
+
+                        if (BALANCER.isFailover) {
+                            if (SELECTED_TARGETS.length > 0) {
+                                CONNECT_TO(SELECTED_TARGETS, 0);
+                            }
+                        }
+                        else {
+                            SELECTED_TARGETS.forEach((i, slot) => {
+                                CONNECT_TO([ i ], slot);
+                            });
+                        }
+
+                        from.once('end', () => {
+                            context.handleLifecycle('onEnd', SESSION, CLIENT_ADDR);
+
+                            from.end();
+                        });
+
+                        from.once('close', () => {
+                            context.handleLifecycle('onClose', SESSION, CLIENT_ADDR);
+
+                            UPSTREAM.whenDone(() => {
+                                ENTRIES_AND_SOCKETS.forEach(t => {
+                                    t.upstream.whenDone(() => {
+                                        t.socket.end();
+                                    });
+                                });
+
+                                // queued chunks have been handled
+                                ME.endSession(SESSION.id);
+                            });
+                        });
+
+                        from.on('data', function(chunk) {
+                            UPSTREAM.enqueue(chunk, (chunk, originalChunk) => {
+                                const NOW = Moment.utc();
+
+                                return whenChunkHandled(() => {
+                                    return HANDLE_CHUNK(
+                                        chunk, vsp_contracts.ProxyDestination.ProxyToTarget, SESSION, originalChunk,
+                                    );
+                                }, (HANDLED) => {
+                                    const CHUNK = HANDLED.chunk;
+
+                                    ENTRIES_AND_SOCKETS.forEach((t) => {
+                                        const index = t.index;
+
+                                        t.upstream.enqueue(CHUNK, (shaping) => {
+                                            try {
+                                                const INJECTED = FAULTS.inject(
+                                                    CHUNK, vsp_contracts.ProxyDestination.ProxyToTarget,
+                                                );
+
+                                                let err: any;
+                                                let chunkSend = false;
+                                                if (INJECTED.chunk) {
+                                                    try {
+                                                        t.socket.write(INJECTED.chunk);  // send "request"
+                                                        if (false !== t.pending) {
+                                                            t.pending.push(INJECTED.chunk);
+                                                        }
+
+                                                        chunkSend = true;
+
+                                                        NEW_STATS.bytesSend += INJECTED.chunk.length;
+                                                        ++NEW_STATS.chunksSend;
+                                                    }
+                                                    catch (e) {
+                                                        err = e;
+                                                    }
+                                                }
+                                            
+                                                const SOURCE_ADDR: vsp_contracts.SocketAddress = {
+                                                    addr: from.remoteAddress,
+                                                    port: from.remotePort,
+                                                };
+                                                const TARGET_ADDR: vsp_contracts.SocketAddress = {
+                                                    addr: t.socket.remoteAddress,
+                                                    port: t.socket.remotePort,
+                                                };
+
+                                                HANDLE_TRACE_ENTRY({
+                                                    chunk: INJECTED.chunk || CHUNK,
+                                                    chunkSend: chunkSend,
+                                                    destination: vsp_contracts.ProxyDestination.ProxyToTarget,
+                                                    error: err,
+                                                    fault: INJECTED.fault,
+                                                    originalChunk: HANDLED.originalChunk,
+                                                    rewrites: HANDLED.rewrites,
+                                                    session: SESSION,
+                                                    shaping: shaping,
+                                                    source: SOURCE_ADDR,
+                                                    sourceIndex: 0,
+                                                    target: TARGET_ADDR,
+                                                    targetIndex: index,
+                                                    time: NOW,
+                                                });
+
+                                                if (FAULTS.isReset) {
+                                                    RESET();
+                                                }
+                                            }
+                                            catch (e) {
+                                                HANDLE_ERROR(e, t.socket);
+                                            }
+                                        });
+                                    });
+                                }, (err) => {
+                                    HANDLE_ERROR(err, from);
+                                });
+                            });
+                        });
+                    }
+                    catch (e) {
+                        HANDLE_ERROR(e, newServer);
+                    }
+                };
+
+                if (TLS_OPTIONS) {
+                    // decrypt data from source / client
+                    newServer = TLS.createServer(TLS_OPTIONS, HANDLE_CONNECTION);
+
+                    newServer.on('tlsClientError', (err) => {
+                        HANDLE_ERROR(err, newServer);
+                    });
+                }
+                else {
+                    newServer = Net.createServer(HANDLE_CONNECTION);
+                }
+
+                newServer.once('error', (err) => {
+                    if (err) {
+                        COMPLETED(err);
+                    }
+                });
+                
+                newServer.listen(SOURCE, () => {
+                    ME._server = newServer;
+                    ME._targetTlsOptions = TARGET_TLS_OPTIONS;
+
+                    COMPLETED(null, true);
+                });
+            }
+            catch (e) {
+                COMPLETED(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    protected stopServer() {
+        const ME = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+            const OLD_SERVER = ME._server;
+            if (!OLD_SERVER) {
+                COMPLETED(null, false);
+                return;
+            }
+
+            try {
+                OLD_SERVER.close(() => {
+                    ME._server = null;
+
+                    COMPLETED(null, true);
+                });
+            }
+            catch (e) {
+                COMPLETED(e);
+            }
+        });
+    }
+}
+
+/**
+ * An UDP proxy.
+ */
+export class UdpProxy extends ProxyBase {
+    private _balancer: vsp_balancer.TargetBalancer;
+    private _server: Dgram.Socket;
+    private _sessions: { [client: string]: UdpSession } = {};
+
+    /**
+     * Closes a pseudo session.
+     * 
+     * @param {UdpSession} session The session to close.
+     */
+    protected closeSession(session: UdpSession) {
+        if (!session || this._sessions[session.key] !== session) {
+            return;  // already closed
+        }
+
+        if (session.timeout) {
+            clearTimeout(session.timeout);
+        }
+
+        session.sockets.forEach(s => {
+            if (this._balancer) {
+                this._balancer.release(s.index);
+            }
+
+            try {
+                s.socket.close();
+            }
+            catch (e) {
+                console.trace('[Proxy] proxy.UdpProxy.closeSession(): ' +
+                              vsp_helpers.toStringSafe(e));
+            }
+        });
+
+        delete this._sessions[session.key];
+
+        session.handleLifecycle('onClose');
+        this.endSession(session.id);
+    }
+
+    /**
+     * Closes all pseudo sessions.
+     */
+    protected closeSessions() {
+        for (const KEY of Object.keys(this._sessions)) {
+            this.closeSession(this._sessions[KEY]);
+        }
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        super.dispose();
+
+        this.closeSessions();
+
+        const OLD_SERVER = this._server;
+        if (OLD_SERVER) {
+            OLD_SERVER.close();
+        }
+
+        this._server = null;
+    }
+
+    /** @inheritdoc */
+    public get isRunning() {
+        return !!this._server;
+    }
+
+    /** @inheritdoc */
+    protected probeTarget(target: vsp_helpers.TargetAddress, index: number,
+                          options: vsp_health.HealthCheckOptions) {
+        return vsp_health.probeUdp(target, options);
+    }
+
+    /** @inheritdoc */
+    public get protocol() {
+        return 'udp';
+    }
+
+    /** @inheritdoc */
+    protected async startServer(context: ProxyContext) {
+        const ME = this;
+
+        if (ME._server) {
+            return false;
+        }
+
+        const TARGETS = context.targets;
+
+        if (!vsp_helpers.isNullOrUndefined(ME.entry.tls) && false !== ME.entry.tls) {
+            throw new Error('TLS is not supported by UDP proxies!');
+        }
+        if (TARGETS.some(t => false !== t.tls)) {
+            throw new Error('TLS is not supported for targets of UDP proxies!');
+        }
+
+        let sessionTimeout = parseInt( vsp_helpers.toStringSafe(ME.entry.sessionTimeout).trim() );
+        if (isNaN(sessionTimeout)) {
+            sessionTimeout = 60000;
+        }
+
+        return await new Promise<boolean>((resolve, reject) => {
+            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+            if (ME._server) {
+                COMPLETED(null, false);
+                return;
+            }
+
+            try {
+                const SOURCE = vsp_helpers.getPortSafe(ME.port, 8081);
+
+                const BALANCER = context.balancer;
+                const HANDLE_CHUNK = context.handleChunk;
+                const HANDLE_ERROR = context.handleError;
+                const HANDLE_TRACE_ENTRY = context.handleTraceEntry;
+                const NEW_STATS = context.statistics;
+
+                const NEW_SERVER = Dgram.createSocket('udp4');
+
+                const GET_SESSION = (client: Dgram.RemoteInfo) => {
+                    const KEY = `${client.address}:${client.port}`;
+
+                    let session = ME._sessions[KEY];
+                    if (!session) {
+                        const REFUSED = context.faults.refuse();
+                        if (REFUSED) {
+                            HANDLE_TRACE_ENTRY({
+                                chunk: null,
+                                chunkSend: false,
+                                destination: vsp_contracts.ProxyDestination.ProxyToTarget,
+                                fault: REFUSED,
+                                session: {
+                                    id: UUID.v4(),
+                                    time: Moment.utc(),
+                                },
+                                source: {
+                                    addr: client.address,
+                                    port: client.port,
+                                },
+                                sourceIndex: 0,
+                                target: {
+                                    addr: NEW_SERVER.address().address,
+                                    port: SOURCE,
+                                },
+                                targetIndex: -1,
+                                time: Moment.utc(),
+                            });
+
+                            return null;  // drop datagram
+                        }
+
+                        const CLIENT_ADDR: vsp_contracts.SocketAddress = {
+                            addr: client.address,
+                            port: client.port,
+                        };
+                        const SESSION: TraceSession = {
+                            id: UUID.v4(),
+                            time: Moment.utc(),
+                        };
+
+                        // the 'onConnect' hook can already use the session state
+                        ME.beginSession(SESSION.id);
+
+                        let selectedTargets = context.selectTargets(SESSION, CLIENT_ADDR);
+                        if (false === selectedTargets) {
+                            ME.endSession(SESSION.id);
+
+                            return null;  // rejected => drop datagram
+                        }
+
+                        const BREAKPOINT_SESSION: vsp_breakpoints.BreakpointSession = {
+                            client: CLIENT_ADDR,
+                            id: SESSION.id,
+                        };
+
+                        const NEW_SESSION: UdpSession = {
+                            client: CLIENT_ADDR,
+                            faults: context.faults.createConnection(),
+                            handleLifecycle: (hook, args?) => {
+                                context.handleLifecycle(hook, SESSION, CLIENT_ADDR, args);
+                            },
+                            id: SESSION.id,
+                            intercept: context.createInterceptStream(
+                                vsp_contracts.ProxyDestination.ProxyToTarget, BREAKPOINT_SESSION,
+                            ),
+                            key: KEY,
+                            sockets: [],
+                            time: SESSION.time,
+                        };
+
+                        const SHAPER = context.createShaper();
+
+                        // there are no connections in UDP, so
+                        // 'failover' mode uses the first candidate only
+                        if (BALANCER.isFailover) {
+                            selectedTargets = selectedTargets.slice(0, 1);
+                        }
+
+                        selectedTargets.forEach((i) => {
+                            const te = TARGETS[i];
+
+                            const TO: Dgram.Socket = context.mock ?
+                                <any>context.mock.createDatagramSocket(CLIENT_ADDR) :  // answer with recorded trace
+                                Dgram.createSocket(
+                                    Net.isIPv6(te.host) ? 'udp6' : 'udp4'
+                                );
+
+                            BALANCER.acquire(i);
+
+                            const TO_ADDR: vsp_contracts.SocketAddress = {
+                                addr: te.host,
+                                port: te.port,
+                            };
+
+                            TO.on('error', (err) => {
+                                HANDLE_ERROR(err, TO);
+
+                                NEW_SESSION.handleLifecycle('onTargetError', {
+                                    error: err,
+                                    target: TO_ADDR,
+                                    targetIndex: i,
+                                });
+                            });
+
+                            const NEW_TARGET: UdpTargetSocket = {
+                                downstream: new vsp_shaping.ShapedStream(SHAPER, vsp_contracts.ProxyDestination.TargetToProxy),
+                                index: i,
+                                intercept: context.createInterceptStream(
+                                    vsp_contracts.ProxyDestination.TargetToProxy, BREAKPOINT_SESSION,
+                                ),
+                                socket: TO,
+                                upstream: new vsp_shaping.ShapedStream(SHAPER, vsp_contracts.ProxyDestination.ProxyToTarget),
+                            };
+
+                            TO.on('message', (chunk, rinfo) => {
+                                NEW_TARGET.intercept.enqueue(chunk, (chunk, originalChunk) => {
+                                    const NOW = Moment.utc();
+
+                                    REFRESH_SESSION(NEW_SESSION);
+
+                                    return whenChunkHandled(() => {
+                                        return HANDLE_CHUNK(
+                                            chunk, vsp_contracts.ProxyDestination.TargetToProxy, SESSION, originalChunk,
+                                        );
+                                    }, (HANDLED) => {
+                                        const CHUNK = HANDLED.chunk;
+
+                                        NEW_TARGET.downstream.enqueue(CHUNK, (shaping) => {
+                                            try {
+                                                const INJECTED = NEW_SESSION.faults.inject(
+                                                    CHUNK, vsp_contracts.ProxyDestination.TargetToProxy,
+                                                );
+
+                                                let err: any;
+                                                let chunkSend = false;
+                                                if (INJECTED.chunk) {
+                                                    if (context.sendBack(i)) {
+                                                        try {
+                                                            NEW_SERVER.send(INJECTED.chunk, NEW_SESSION.client.port, NEW_SESSION.client.addr);  // send "answer"
+
+                                                            chunkSend = true;
+
+                                                            NEW_STATS.bytesReceived += INJECTED.chunk.length;
+                                                            ++NEW_STATS.chunksReceived;
+                                                        }
+                                                        catch (e) {
+                                                            err = e;
+                                                        }
+                                                    }
+                                                }
+
+                                                HANDLE_TRACE_ENTRY({
+                                                    chunk: INJECTED.chunk || CHUNK,
+                                                    chunkSend: chunkSend,
+                                                    destination: vsp_contracts.ProxyDestination.TargetToProxy,
+                                                    error: err,
+                                                    fault: INJECTED.fault,
+                                                    originalChunk: HANDLED.originalChunk,
+                                                    rewrites: HANDLED.rewrites,
+                                                    session: {
+                                                        id: NEW_SESSION.id,
+                                                        time: NEW_SESSION.time,
+                                                    },
+                                                    shaping: shaping,
+                                                    source: {
+                                                        addr: rinfo.address,
+                                                        port: rinfo.port,
+                                                    },
+                                                    sourceIndex: i,
+                                                    target: NEW_SESSION.client,
+                                                    targetIndex: 0,
+                                                    time: NOW,
+                                                });
+
+                                                if (NEW_SESSION.faults.isReset) {
+                                                    ME.closeSession(NEW_SESSION);
+                                                }
+                                            }
+                                            catch (e) {
+                                                HANDLE_ERROR(e, TO);
+                                            }
+                                        });
+                                    }, (err) => {
+                                        HANDLE_ERROR(err, TO);
+                                    });
+                                });
+                            });
+
+                            NEW_SESSION.sockets.push(NEW_TARGET);
+
+                            // there is no real connection in UDP
+                            NEW_SESSION.handleLifecycle('onTargetConnected', {
+                                target: TO_ADDR,
+                                targetIndex: i,
+                            });
+                        });
+
+                        ME._sessions[KEY] = session = NEW_SESSION;
+                    }
+
+                    REFRESH_SESSION(session);
+
+                    return session;
+                };
+
+                const REFRESH_SESSION = (session: UdpSession) => {
+                    if (session.timeout) {
+                        clearTimeout(session.timeout);
+                    }
+
+                    if (sessionTimeout > 0) {
+                        session.timeout = setTimeout(() => {
+                            session.handleLifecycle('onEnd');
+
+                            ME.closeSession(session);
+                        }, sessionTimeout);
+                    }
+                };
+
+                NEW_SERVER.on('message', (chunk, rinfo) => {
+                    try {
+                        const SESSION = GET_SESSION(rinfo);
+                        if (!SESSION) {
+                            return;
+                        }
+
+                        SESSION.intercept.enqueue(chunk, (chunk, originalChunk) => {
+                            const NOW = Moment.utc();
+
+                            return whenChunkHandled(() => {
+                                return HANDLE_CHUNK(
+                                    chunk, vsp_contracts.ProxyDestination.ProxyToTarget, {
+                                        id: SESSION.id,
+                                        time: SESSION.time,
+                                    }, originalChunk,
+                                );
+                            }, (HANDLED) => {
+                                const CHUNK = HANDLED.chunk;
+
+                                SESSION.sockets.forEach((t) => {
+                                    const index = t.index;
+                                    const s = t.socket;
+                                    const TARGET = TARGETS[index];
+
+                                    t.upstream.enqueue(CHUNK, (shaping) => {
+                                        try {
+                                            const INJECTED = SESSION.faults.inject(
+                                                CHUNK, vsp_contracts.ProxyDestination.ProxyToTarget,
+                                            );
+
+                                            let err: any;
+                                            let chunkSend = false;
+                                            if (INJECTED.chunk) {
+                                                try {
+                                                    s.send(INJECTED.chunk, TARGET.port, TARGET.host);  // send "request"
+
+                                                    chunkSend = true;
+
+                                                    NEW_STATS.bytesSend += INJECTED.chunk.length;
+                                                    ++NEW_STATS.chunksSend;
+                                                }
+                                                catch (e) {
+                                                    err = e;
+                                                }
+                                            }
+
+                                            HANDLE_TRACE_ENTRY({
+                                                chunk: INJECTED.chunk || CHUNK,
+                                                chunkSend: chunkSend,
+                                                destination: vsp_contracts.ProxyDestination.ProxyToTarget,
+                                                error: err,
+                                                fault: INJECTED.fault,
+                                                originalChunk: HANDLED.originalChunk,
+                                                rewrites: HANDLED.rewrites,
+                                                session: {
+                                                    id: SESSION.id,
+                                                    time: SESSION.time,
+                                                },
+                                                shaping: shaping,
+                                                source: SESSION.client,
+                                                sourceIndex: 0,
+                                                target: {
+                                                    addr: TARGET.host,
+                                                    port: TARGET.port,
+                                                },
+                                                targetIndex: index,
+                                                time: NOW,
+                                            });
+
+                                            if (SESSION.faults.isReset) {
+                                                ME.closeSession(SESSION);
+                                            }
+                                        }
+                                        catch (e) {
+                                            HANDLE_ERROR(e, s);
+                                        }
+                                    });
+                                });
+                            }, (err) => {
+                                HANDLE_ERROR(err, NEW_SERVER);
+                            });
+                        });
+                    }
+                    catch (e) {
+                        HANDLE_ERROR(e, NEW_SERVER);
+                    }
+                });
+
+                NEW_SERVER.on('error', (err) => {
+                    if (err) {
+                        COMPLETED(err);
+
+                        HANDLE_ERROR(err, NEW_SERVER);
+                    }
+                });
+
+                NEW_SERVER.bind(SOURCE, () => {
+                    ME._balancer = BALANCER;
+                    ME._server = NEW_SERVER;
+
+                    COMPLETED(null, true);
+                });
+            }
+            catch (e) {
+                COMPLETED(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    protected stopServer() {
+        const ME = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+            const OLD_SERVER = ME._server;
+            if (!OLD_SERVER) {
+                COMPLETED(null, false);
+                return;
+            }
+
+            try {
+                ME.closeSessions();
+
+                OLD_SERVER.close(() => {
+                    ME._server = null;
+
+                    COMPLETED(null, true);
+                });
+            }
+            catch (e) {
+                COMPLETED(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,367 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Dgram from 'dgram';
+const Hexy = require('hexy');
+import * as Moment from 'moment';
+import * as Net from 'net';
+import * as TLS from 'tls';
+import * as UUID from 'uuid';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+import * as vsp_tls from './tls';
+
+
+/**
+ * Options for replaying a trace.
+ */
+export interface ReplayOptions {
+    /**
+     * Send the chunks, as they have been received from the client (true),
+     * or as they have been sent to the target (false).
+     */
+    readonly original: boolean;
+    /**
+     * The protocol, like 'tcp' or 'udp'.
+     */
+    readonly protocol: string;
+    /**
+     * The IDs of the sessions to replay.
+     */
+    readonly sessions: string[];
+    /**
+     * The factor for the original timing, like 1 for the original or 10 for 10 times faster.
+     * 0 sends the chunks as fast as possible.
+     */
+    readonly speed: number;
+    /**
+     * The target.
+     */
+    readonly target: vsp_helpers.TargetAddress;
+    /**
+     * The time in milliseconds without new data, after a session ends, when all chunks have been sent.
+     */
+    readonly timeout: number;
+}
+
+/**
+ * The result of a replay.
+ */
+export interface ReplayResult {
+    /**
+     * The IDs of the original sessions by the IDs of the new ones.
+     */
+    readonly sessions: { [id: string]: string };
+    /**
+     * The new trace with the sent chunks and the responses.
+     */
+    readonly trace: vsp_contracts.TraceEntry[];
+}
+
+/**
+ * The default value for 'ReplayOptions.timeout'.
+ */
+export const DEFAULT_TIMEOUT = 1000;
+
+
+/**
+ * Creates the texts for comparing the responses of the original sessions with the ones of a replay.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} original The original trace.
+ * @param {ReplayResult} result The result of the replay.
+ * @param {string} format The output format, like 'ascii' or 'text'.
+ * @param {number} hexWidth The width for binary data in hex view.
+ * 
+ * @return {Object} The texts.
+ */
+export function compareResponses(original: vsp_contracts.TraceEntry[], result: ReplayResult,
+                                 format: string, hexWidth: number) {
+    const TO_TEXT = (trace: vsp_contracts.TraceEntry[]) => {
+        let data = Buffer.alloc(0);
+        trace.forEach(te => {
+            if (te.chunk) {
+                data = Buffer.concat([ data, te.chunk ]);
+            }
+        });
+
+        if ('ascii' === format || 'http' === format) {
+            return data.toString('ascii');
+        }
+
+        return Hexy.hexy(data, { width: hexWidth });
+    };
+
+    let originalText = '';
+    let replayedText = '';
+    Object.keys(result.sessions).forEach((id, i) => {
+        const ORIGINAL_ID = result.sessions[id];
+
+        const ORIGINAL_TRACE = getSessionTrace(original, ORIGINAL_ID, vsp_contracts.ProxyDestination.TargetToProxy);
+        const REPLAYED_TRACE = getSessionTrace(result.trace, id, vsp_contracts.ProxyDestination.TargetToProxy);
+
+        originalText += `[SESSION] ${i + 1}\n${TO_TEXT(ORIGINAL_TRACE)}\n\n`;
+        replayedText += `[SESSION] ${i + 1}\n${TO_TEXT(REPLAYED_TRACE)}\n\n`;
+    });
+
+    return {
+        original: originalText,
+        replayed: replayedText,
+    };
+}
+
+/**
+ * Re-sends the chunks of sessions, which have been sent to a target, and records the responses as new trace.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} trace The trace.
+ * @param {ReplayOptions} options The options.
+ * @param {vscode.CancellationToken} [token] The token, which cancels the replay.
+ * 
+ * @return {Promise<ReplayResult>} The promise with the result.
+ */
+export async function replayTrace(trace: vsp_contracts.TraceEntry[], options: ReplayOptions,
+                                  token?: vscode.CancellationToken): Promise<ReplayResult> {
+    const TLS_OPTIONS = await vsp_tls.createConnectionOptions(options.target);
+
+    const SESSIONS: { [id: string]: string } = {};
+    const TRACE: vsp_contracts.TraceEntry[] = [];
+
+    const SESSION_TRACES = vsp_helpers.distinctArray(options.sessions).map(id => {
+        return {
+            id: id,
+            trace: getSessionTrace(trace, id, vsp_contracts.ProxyDestination.ProxyToTarget),
+        };
+    }).filter(s => s.trace.length > 0);
+
+    const GET_SESSION_START = (sessionTrace: vsp_contracts.TraceEntry[]) => {
+        const SESSION = sessionTrace[0].session;
+
+        return (SESSION && SESSION.time ? SESSION.time : sessionTrace[0].time).valueOf();
+    };
+
+    const START = Math.min.apply(null, SESSION_TRACES.map(s => GET_SESSION_START(s.trace)));
+    const REPLAY_START = Date.now();
+
+    // waits until a time of the original trace has been reached
+    const WAIT_FOR = (time: number) => {
+        let delay = 0;
+        if (options.speed > 0) {
+            delay = (time - START) / options.speed - (Date.now() - REPLAY_START);
+        }
+
+        return new Promise<void>(resolve => {
+            if (delay > 0) {
+                setTimeout(resolve, delay);
+            }
+            else {
+                resolve();
+            }
+        });
+    };
+
+    const REPLAY_SESSION = async (originalId: string, sessionTrace: vsp_contracts.TraceEntry[]) => {
+        await WAIT_FOR(GET_SESSION_START(sessionTrace));
+
+        const NEW_SESSION = {
+            id: UUID.v4(),
+            time: Moment.utc(),
+        };
+        SESSIONS[NEW_SESSION.id] = originalId;
+
+        await new Promise<void>(resolve => {
+            let onReady: () => void;
+            const READY = new Promise<void>(r => onReady = r);
+
+            let isClosed = false;
+            let timeout: NodeJS.Timer;
+            let isSendCompleted = false;
+
+            let client: () => vsp_contracts.SocketAddress;
+            let close: () => void;
+            let send: (chunk: Buffer) => void;
+
+            const TARGET: vsp_contracts.SocketAddress = {
+                addr: options.target.host,
+                port: options.target.port,
+            };
+
+            const ADD_ENTRY = (destination: vsp_contracts.ProxyDestination, chunk: Buffer, err?: any) => {
+                const IS_UPSTREAM = vsp_contracts.ProxyDestination.ProxyToTarget === destination;
+
+                TRACE.push({
+                    chunk: chunk,
+                    chunkSend: !err && !!chunk,
+                    destination: destination,
+                    error: err,
+                    session: NEW_SESSION,
+                    source: IS_UPSTREAM ? client() : TARGET,
+                    sourceIndex: 0,
+                    target: IS_UPSTREAM ? TARGET : client(),
+                    targetIndex: 0,
+                    time: Moment.utc(),
+                });
+            };
+
+            const FINISH = () => {
+                if (isClosed) {
+                    return;
+                }
+                isClosed = true;
+
+                clearTimeout(timeout);
+                cancellation.dispose();
+                onReady();
+
+                try {
+                    close();
+                }
+                catch (e) {
+                    console.trace('[Proxy] replay.replayTrace(close): ' + vsp_helpers.toStringSafe(e));
+                }
+
+                resolve();
+            };
+
+            const RESET_TIMEOUT = () => {
+                clearTimeout(timeout);
+
+                if (isSendCompleted) {
+                    timeout = setTimeout(FINISH, options.timeout);
+                }
+            };
+
+            const ON_DATA = (data: Buffer) => {
+                ADD_ENTRY(vsp_contracts.ProxyDestination.TargetToProxy, data);
+
+                RESET_TIMEOUT();
+            };
+
+            const ON_ERROR = (err: any) => {
+                if (isClosed) {
+                    return;
+                }
+
+                ADD_ENTRY(vsp_contracts.ProxyDestination.ProxyToTarget, null, err);
+
+                FINISH();
+            };
+
+            const cancellation = token ? token.onCancellationRequested(FINISH) : { dispose: () => { } };
+
+            if ('udp' === vsp_helpers.normalizeString(options.protocol)) {
+                const SOCKET = Dgram.createSocket(Net.isIPv6(options.target.host) ? 'udp6' : 'udp4');
+                SOCKET.on('error', ON_ERROR);
+                SOCKET.on('listening', () => onReady());
+                SOCKET.on('message', ON_DATA);
+                SOCKET.bind(0);
+
+                client = () => {
+                    let addr: { address: string, port: number };
+                    try {
+                        addr = SOCKET.address();
+                    }
+                    catch (e) {
+                        // not bound
+                    }
+
+                    return {
+                        addr: addr ? addr.address : undefined,
+                        port: addr ? addr.port : undefined,
+                    };
+                };
+                close = () => SOCKET.close();
+                send = (chunk) => SOCKET.send(chunk, options.target.port, options.target.host);
+            }
+            else {
+                const SOCKET: Net.Socket = TLS_OPTIONS ?
+                    TLS.connect(TLS_OPTIONS) :
+                    Net.createConnection({
+                        host: options.target.host,
+                        port: options.target.port,
+                    });
+                SOCKET.once(TLS_OPTIONS ? 'secureConnect' : 'connect', () => onReady());
+                SOCKET.on('close', FINISH);
+                SOCKET.on('data', ON_DATA);
+                SOCKET.on('error', ON_ERROR);
+
+                client = () => {
+                    return {
+                        addr: SOCKET.localAddress,
+                        port: SOCKET.localPort,
+                    };
+                };
+                close = () => SOCKET.destroy();
+                send = (chunk) => SOCKET.write(chunk);
+            }
+
+            (async () => {
+                await READY;
+
+                for (const TE of sessionTrace) {
+                    await WAIT_FOR(TE.time.valueOf());
+                    if (isClosed) {
+                        return;
+                    }
+
+                    // chunks, which have not been sent to the target, have been received from the client
+                    const CHUNK = options.original ? (TE.originalChunk || TE.chunk) : (TE.chunkSend ? TE.chunk : null);
+                    if (!CHUNK) {
+                        continue;
+                    }
+
+                    send(CHUNK);
+                    ADD_ENTRY(vsp_contracts.ProxyDestination.ProxyToTarget, CHUNK);
+                }
+
+                isSendCompleted = true;
+                RESET_TIMEOUT();
+            })().catch(ON_ERROR);
+        });
+    };
+
+    await Promise.all(SESSION_TRACES.map(s => {
+        return REPLAY_SESSION(s.id, s.trace);
+    }));
+
+    return {
+        sessions: SESSIONS,
+        trace: TRACE,
+    };
+}
+
+function getSessionTrace(trace: vsp_contracts.TraceEntry[], id: string, destination: vsp_contracts.ProxyDestination) {
+    const SESSION_TRACE = vsp_helpers.asArray(trace).filter(te => {
+        return te && (te.chunk || te.originalChunk) &&
+               destination === te.destination &&
+               vsp_helpers.toStringSafe(te.session ? te.session.id : '') === id;
+    });
+
+    // only the first target in 'mirror' mode
+    const GET_TARGET_INDEX = (te: vsp_contracts.TraceEntry) => {
+        return vsp_contracts.ProxyDestination.ProxyToTarget === te.destination ? te.targetIndex : te.sourceIndex;
+    };
+    const FIRST_TARGET = Math.min.apply(null, SESSION_TRACE.map(te => GET_TARGET_INDEX(te)));
+
+    return SESSION_TRACE.filter(te => GET_TARGET_INDEX(te) === FIRST_TARGET);
+}
@@ -0,0 +1,257 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * The result of rewriting a chunk.
+ */
+export interface RewriteResult {
+    /**
+     * The (new) chunk.
+     */
+    readonly chunk: Buffer;
+    /**
+     * The rewrites, which have been applied.
+     */
+    readonly rewrites: vsp_contracts.TraceRewrite[];
+}
+
+/**
+ * A normalized rewrite rule.
+ */
+export interface RewriteRule {
+    /**
+     * Replace all matches (true) or the first one only (false).
+     */
+    readonly all: boolean;
+    /**
+     * The directions.
+     */
+    readonly destinations: vsp_contracts.ProxyDestination[];
+    /**
+     * The (display) name.
+     */
+    readonly name: string;
+    /**
+     * The replacement.
+     */
+    readonly replace: Buffer | string;
+    /**
+     * The data or expression to search for.
+     */
+    readonly search: Buffer | RegExp;
+}
+
+
+function fromHex(val: any, rule: string): Buffer {
+    // allow things like '0d 0a' or '0x0d0a'
+    const HEX = vsp_helpers.toStringSafe(val).replace(/\s/g, '').replace(/^0x/i, '');
+    if (!/^([0-9a-f]{2})*$/i.test(HEX)) {
+        throw new Error(`Invalid hex data '${vsp_helpers.toStringSafe(val)}' in rewrite rule '${rule}'!`);
+    }
+
+    return Buffer.from(HEX, 'hex');
+}
+
+function replaceBuffer(chunk: Buffer, search: Buffer, replace: Buffer, all: boolean) {
+    const PARTS: Buffer[] = [];
+
+    let count = 0;
+    let offset = 0;
+    while (offset <= chunk.length) {
+        const INDEX = chunk.indexOf(search, offset);
+        if (INDEX < 0) {
+            break;
+        }
+
+        PARTS.push(chunk.slice(offset, INDEX), replace);
+        ++count;
+
+        offset = INDEX + search.length;
+        if (!all) {
+            break;
+        }
+    }
+
+    if (count < 1) {
+        return {
+            chunk: chunk,
+            count: count,
+        };
+    }
+
+    PARTS.push(chunk.slice(offset));
+
+    return {
+        chunk: Buffer.concat(PARTS),
+        count: count,
+    };
+}
+
+function replaceRegex(chunk: Buffer, search: RegExp, replace: string) {
+    // binary data is handled byte by byte
+    const ENCODING = Buffer.from(chunk.toString('utf8'), 'utf8').equals(chunk) ?
+        'utf8' : 'latin1';
+
+    const STR = chunk.toString(ENCODING);
+
+    search.lastIndex = 0;
+    const MATCHES = STR.match(search);
+
+    search.lastIndex = 0;
+    if (!MATCHES) {
+        return {
+            chunk: chunk,
+            count: 0,
+        };
+    }
+
+    return {
+        chunk: Buffer.from(STR.replace(search, replace), ENCODING),
+        count: search.global ? MATCHES.length : 1,
+    };
+}
+
+/**
+ * Applies rewrite rules to a chunk.
+ * 
+ * @param {RewriteRule[]} rules The rules.
+ * @param {Buffer} chunk The chunk.
+ * @param {vsp_contracts.ProxyDestination} destination The direction.
+ * 
+ * @return {RewriteResult} The result.
+ */
+export function rewriteChunk(rules: RewriteRule[], chunk: Buffer, destination: vsp_contracts.ProxyDestination): RewriteResult {
+    const REWRITES: vsp_contracts.TraceRewrite[] = [];
+
+    if (chunk) {
+        for (const R of rules) {
+            if (R.destinations.indexOf(destination) < 0) {
+                continue;
+            }
+
+            const RESULT = Buffer.isBuffer(R.search) ?
+                replaceBuffer(chunk, R.search, <Buffer>R.replace, R.all) :
+                replaceRegex(chunk, R.search, <string>R.replace);
+
+            if (RESULT.count > 0) {
+                chunk = RESULT.chunk;
+
+                REWRITES.push({
+                    count: RESULT.count,
+                    name: R.name,
+                });
+            }
+        }
+    }
+
+    return {
+        chunk: chunk,
+        rewrites: REWRITES,
+    };
+}
+
+/**
+ * Normalizes rewrite rule settings.
+ * 
+ * @param {vsp_contracts.RewriteRuleSettings|vsp_contracts.RewriteRuleSettings[]} settings The settings.
+ * 
+ * @return {RewriteRule[]} The enabled rules.
+ */
+export function toRewriteRules(settings: vsp_contracts.RewriteRuleSettings | vsp_contracts.RewriteRuleSettings[]): RewriteRule[] {
+    return vsp_helpers.asArray(settings).filter(s => {
+        return s && vsp_helpers.toBooleanSafe(s.enabled, true);
+    }).map((s, i) => {
+        let name = vsp_helpers.toStringSafe(s.name).trim();
+        if ('' === name) {
+            name = `#${i + 1}`;
+        }
+
+        let matches = vsp_helpers.normalizeString(s.matches);
+        if ('' === matches) {
+            matches = 'all';
+        }
+        if ('all' !== matches && 'first' !== matches) {
+            throw new Error(`Rewrite matches '${matches}' are not supported!`);
+        }
+
+        const ALL = 'all' === matches;
+
+        let search: Buffer | RegExp;
+        let replace: Buffer | string;
+
+        const TYPE = vsp_helpers.normalizeString(s.type);
+        switch (TYPE) {
+            case '':
+            case 'literal':
+                search = vsp_helpers.toBufferSafe(s.search, 'utf8') || null;
+                replace = vsp_helpers.toBufferSafe(s.replace, 'utf8') || Buffer.alloc(0);
+                break;
+
+            case 'hex':
+                {
+                    const SEARCH = fromHex(s.search, name);
+
+                    search = SEARCH.length < 1 ? null : SEARCH;
+                    replace = fromHex(s.replace, name);
+                }
+                break;
+
+            case 'regex':
+                {
+                    let flags = vsp_helpers.toStringSafe(s.flags).replace(/g/g, '');
+                    if (ALL) {
+                        flags += 'g';
+                    }
+
+                    const SEARCH = vsp_helpers.toStringSafe(s.search);
+
+                    search = '' === SEARCH ? null : new RegExp(SEARCH, flags);
+                    replace = vsp_helpers.toStringSafe(s.replace);
+                }
+                break;
+
+            default:
+                throw new Error(`Rewrite type '${TYPE}' is not supported!`);
+        }
+
+        if (!search) {
+            throw new Error(`No search value defined for rewrite rule '${name}'!`);
+        }
+
+        const RULE: RewriteRule = {
+            all: ALL,
+            destinations: vsp_helpers.getDestinations(s.direction),
+            name: name,
+            replace: replace,
+            search: search,
+        };
+
+        return RULE;
+    });
+}
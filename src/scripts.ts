@@ -0,0 +1,291 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Crypto from 'crypto';
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as VM from 'vm';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * Limits of handler scripts and trace writers.
+ */
+export interface ScriptLimits {
+    /**
+     * The maximum time in milliseconds, an invocation of a script function may run.
+     */
+    readonly timeout: number;
+}
+
+
+/**
+ * The default timeout in milliseconds for an invocation of a limited script function.
+ */
+export const DEFAULT_TIMEOUT = 1000;
+const KEY_TRUSTED_SCRIPTS = 'vspTrustedScriptHashes';
+
+
+/**
+ * Loads a script with limits.
+ * 
+ * The script runs in its own VM context, can only 'require()' the 'vscode-proxy' module
+ * and each call of one of its exported functions is limited by the timeout.
+ * 
+ * This does NOT isolate the script: it can still reach the objects of the
+ * extension host, like 'process', so only scripts, which are trusted, should be loaded.
+ * 
+ * @param {string} file The path to the script.
+ * @param {ScriptLimits} limits The limits.
+ * 
+ * @return {TModule} The (wrapped) exports of the script.
+ */
+export function loadLimitedModule<TModule>(file: string, limits: ScriptLimits): TModule {
+    file = vsp_helpers.toFullPath(file);
+
+    const STATS = FS.lstatSync(file);
+    if (!STATS.isFile()) {
+        throw new Error(`'${file}' is NO file!`);
+    }
+
+    let code: string;
+    if ('.ts' === Path.extname(file).toLowerCase()) {
+        code = vsp_helpers.transpileTypeScript(file);
+    }
+    else {
+        code = FS.readFileSync(file, 'utf8');
+    }
+
+    const MODULE = {
+        exports: {},
+    };
+
+    const SCOPE: any = {
+        Buffer: Buffer,
+        clearInterval: clearInterval,
+        clearTimeout: clearTimeout,
+        console: console,
+        exports: MODULE.exports,
+        module: MODULE,
+        require: (id: string) => {
+            if (vsp_helpers.CONTRACTS_MODULE === id) {
+                return vsp_contracts;
+            }
+
+            throw new Error(`Module '${id}' is not available in a limited script!`);
+        },
+        setInterval: setInterval,
+        setTimeout: setTimeout,
+    };
+
+    const CONTEXT = VM.createContext(SCOPE);
+
+    new VM.Script(code, {
+        filename: file,
+    }).runInContext(CONTEXT, {
+        timeout: limits.timeout,
+    });
+
+    const INVOKE = new VM.Script('__vspInvoke.func(__vspInvoke.args)', {
+        filename: file,
+    });
+
+    const EXPORTS = MODULE.exports || {};
+
+    const LIMITED_MODULE: any = {};
+    Object.keys(EXPORTS).forEach(key => {
+        const VALUE = EXPORTS[key];
+        if ('function' !== typeof VALUE) {
+            LIMITED_MODULE[key] = VALUE;
+            return;
+        }
+
+        LIMITED_MODULE[key] = (args: vsp_contracts.ScriptArguments) => {
+            SCOPE['__vspInvoke'] = {
+                args: toLimitedArguments(args),
+                func: VALUE,
+            };
+
+            let result: any;
+            try {
+                result = INVOKE.runInContext(CONTEXT, {
+                    timeout: limits.timeout,
+                });
+            }
+            finally {
+                delete SCOPE['__vspInvoke'];
+            }
+
+            if (vsp_helpers.isPromiseLike(result)) {
+                return withTimeout(result, limits.timeout, `'${key}()' of '${file}'`);
+            }
+
+            return result;
+        };
+    });
+
+    return LIMITED_MODULE;
+}
+
+/**
+ * Asks the user, if scripts, which have not been trusted yet or have been changed since then, can be executed.
+ * 
+ * Trusted scripts are stored with the hash of their content in the workspace state.
+ * 
+ * @param {vscode.ExtensionContext} context The extension context.
+ * @param {string[]} files The paths of the scripts.
+ * @param {string} proxyName The name of the proxy, which wants to run the scripts.
+ * 
+ * @return {Promise<boolean>} The promise that indicates if all scripts are trusted or not.
+ */
+export async function requestTrust(context: vscode.ExtensionContext, files: string[], proxyName: string): Promise<boolean> {
+    files = vsp_helpers.distinctArray(
+        vsp_helpers.asArray(files).filter(f => !vsp_helpers.isEmptyString(f)).map(f => {
+            return vsp_helpers.toFullPath(f);
+        })
+    );
+
+    // file => hash
+    const TRUSTED_SCRIPTS: { [file: string]: string } = Object.assign(
+        {},
+        context.workspaceState.get(KEY_TRUSTED_SCRIPTS),
+    );
+
+    const HASHES: { [file: string]: string } = {};
+    for (const F of files) {
+        HASHES[F] = await toScriptHash(F);
+    }
+
+    const UNTRUSTED_SCRIPTS = files.filter(f => TRUSTED_SCRIPTS[f] !== HASHES[f]);
+    if (UNTRUSTED_SCRIPTS.length < 1) {
+        return true;
+    }
+
+    const SELECTED_ITEM = await vscode.window.showWarningMessage(
+        `[Proxy] '${proxyName}' wants to run the following new or changed script(s): ${UNTRUSTED_SCRIPTS.map(f => `'${f}'`).join(', ')}. Only continue, if you trust them!`,
+        { modal: true },
+        'Trust',
+    );
+    if ('Trust' !== SELECTED_ITEM) {
+        return false;
+    }
+
+    UNTRUSTED_SCRIPTS.forEach(f => {
+        TRUSTED_SCRIPTS[f] = HASHES[f];
+    });
+
+    await context.workspaceState.update(
+        KEY_TRUSTED_SCRIPTS,
+        TRUSTED_SCRIPTS,
+    );
+
+    return true;
+}
+
+/**
+ * Converts the 'scriptLimits' setting of a proxy entry to limits.
+ * 
+ * @param {boolean|vsp_contracts.ScriptLimitSettings} settings The settings.
+ * 
+ * @return {ScriptLimits|false} The limits or (false) if scripts should run without limits.
+ */
+export function toScriptLimits(settings: boolean | vsp_contracts.ScriptLimitSettings): ScriptLimits | false {
+    if (vsp_helpers.isNullOrUndefined(settings) || false === settings) {
+        return false;
+    }
+
+    let timeout: number;
+    if ('object' === typeof settings) {
+        timeout = parseInt( vsp_helpers.toStringSafe(settings.timeout).trim() );
+    }
+    if (isNaN(timeout) || timeout < 1) {
+        timeout = DEFAULT_TIMEOUT;
+    }
+
+    return {
+        timeout: timeout,
+    };
+}
+
+function toLimitedArguments(args: vsp_contracts.ScriptArguments): vsp_contracts.ScriptArguments {
+    if (!args) {
+        return args;
+    }
+
+    const OUTPUT_CHANNEL = args.outputChannel;
+
+    // no access to the extension context
+    // and only writing to the output channel
+    return new Proxy(args, {
+        get: (target, property) => {
+            switch (property) {
+                case 'context':
+                    return undefined;
+
+                case 'outputChannel':
+                    return {
+                        append: (value: string) => OUTPUT_CHANNEL.append(value),
+                        appendLine: (value: string) => OUTPUT_CHANNEL.appendLine(value),
+                    };
+            }
+
+            return target[property];
+        },
+    });
+}
+
+function toScriptHash(file: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        FS.readFile(file, (err, data) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(
+                    Crypto.createHash('sha256').update(data).digest('hex')
+                );
+            }
+        });
+    });
+}
+
+function withTimeout<TResult>(promise: PromiseLike<TResult>, timeout: number, name: string): Promise<TResult> {
+    return new Promise<TResult>((resolve, reject) => {
+        const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+        const TIMER = setTimeout(() => {
+            COMPLETED(new Error(`${name} timed out after ${timeout} ms!`));
+        }, timeout);
+
+        promise.then((result) => {
+            clearTimeout(TIMER);
+            COMPLETED(null, result);
+        }, (err) => {
+            clearTimeout(TIMER);
+            COMPLETED(err);
+        });
+    });
+}
@@ -0,0 +1,317 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * Normalized traffic shaping settings.
+ */
+export interface TrafficShapingOptions {
+    /**
+     * The maximum number of bytes per second for each direction (0 = unlimited).
+     */
+    readonly bytesPerSecond: { [destination: number]: number };
+    /**
+     * The fixed delay in milliseconds for each chunk.
+     */
+    readonly delay: number;
+    /**
+     * The maximum random delay in milliseconds, which is added to 'delay'.
+     */
+    readonly jitter: number;
+    /**
+     * The scope, like 'connection' or 'proxy'.
+     */
+    readonly scope: string;
+}
+
+
+/**
+ * The maximum number of bytes, which are queued in one direction, before the source is paused.
+ */
+export const HIGH_WATER_MARK = 1048576;
+
+
+/**
+ * Shapes the traffic of one or more connections.
+ */
+export class TrafficShaper {
+    private readonly _NEXT_FREE: { [destination: number]: number } = {};
+    private readonly _OPTIONS: TrafficShapingOptions;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {TrafficShapingOptions} options The options.
+     */
+    constructor(options: TrafficShapingOptions) {
+        this._OPTIONS = options;
+    }
+
+    /**
+     * Returns the shaping information for a direction.
+     * 
+     * @param {vsp_contracts.ProxyDestination} destination The direction.
+     * @param {number} delay The time in milliseconds, a chunk has been delayed.
+     * 
+     * @return {vsp_contracts.TraceShaping} The information.
+     */
+    public getInfo(destination: vsp_contracts.ProxyDestination, delay: number): vsp_contracts.TraceShaping {
+        return {
+            bytesPerSecond: this.options.bytesPerSecond[destination] || 0,
+            delay: delay,
+            fixedDelay: this.options.delay,
+            jitter: this.options.jitter,
+            scope: this.options.scope,
+        };
+    }
+
+    /**
+     * Gets the options.
+     */
+    public get options(): TrafficShapingOptions {
+        return this._OPTIONS;
+    }
+
+    /**
+     * Returns the time, when a chunk can be send.
+     * 
+     * @param {number} length The size of the chunk, in bytes.
+     * @param {vsp_contracts.ProxyDestination} destination The direction.
+     * 
+     * @return {number} The timestamp in milliseconds.
+     */
+    public schedule(length: number, destination: vsp_contracts.ProxyDestination): number {
+        const NOW = Date.now();
+
+        let due = NOW + this.options.delay;
+        if (this.options.jitter > 0) {
+            due += Math.floor(Math.random() * (this.options.jitter + 1));
+        }
+
+        // bandwidth
+        const BYTES_PER_SECOND = this.options.bytesPerSecond[destination];
+        if (BYTES_PER_SECOND > 0) {
+            const START = Math.max(NOW, this._NEXT_FREE[destination] || 0);
+            const FINISHED = START + Math.ceil(length * 1000 / BYTES_PER_SECOND);
+
+            this._NEXT_FREE[destination] = FINISHED;
+
+            due = Math.max(due, FINISHED);
+        }
+
+        return due;
+    }
+}
+
+/**
+ * A stream of chunks in one direction, which are send in the order they have been received.
+ * Without a shaper, the chunks are send immediately.
+ * 
+ * The source is paused, while more than 'HIGH_WATER_MARK' bytes are queued.
+ * If it cannot be paused, like an UDP socket, the chunks are dropped instead.
+ */
+export class ShapedStream {
+    private readonly _DESTINATION: vsp_contracts.ProxyDestination;
+    private _isPaused = false;
+    private _lastDue = 0;
+    private readonly _ON_PAUSE: (paused: boolean) => void;
+    private _queue: Promise<any> = Promise.resolve();
+    private _queuedBytes = 0;
+    private readonly _SHAPER: TrafficShaper;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {TrafficShaper|null} shaper The underlying shaper.
+     * @param {vsp_contracts.ProxyDestination} destination The direction.
+     * @param {Function} [onPause] The optional function, which pauses or resumes the underlying source.
+     */
+    constructor(shaper: TrafficShaper | null, destination: vsp_contracts.ProxyDestination,
+                onPause?: (paused: boolean) => void) {
+        this._SHAPER = shaper;
+        this._DESTINATION = destination;
+        this._ON_PAUSE = onPause;
+    }
+
+    /**
+     * Enqueues a chunk.
+     * 
+     * @param {Buffer} chunk The chunk.
+     * @param {Function} action The action, which sends the chunk.
+     * 
+     * @return {Promise<void>} The promise, which is resolved after the action has been invoked or the chunk has been dropped.
+     */
+    public enqueue(chunk: Buffer, action: (shaping: vsp_contracts.TraceShaping) => any): Promise<void> {
+        const ME = this;
+
+        if (!ME._SHAPER) {
+            action(undefined);
+
+            return Promise.resolve();
+        }
+
+        const LENGTH = chunk ? chunk.length : 0;
+        if (!ME._ON_PAUSE && ME._queuedBytes >= HIGH_WATER_MARK) {
+            return Promise.resolve();  // queue is full => drop
+        }
+
+        ME._queuedBytes += LENGTH;
+        if (ME._queuedBytes > HIGH_WATER_MARK) {
+            ME.setPaused(true);
+        }
+
+        const RECEIVED = Date.now();
+        const DUE = ME._lastDue = Math.max(
+            ME._lastDue,
+            ME._SHAPER.schedule(chunk ? chunk.length : 0, ME._DESTINATION),
+        );
+
+        return ME._queue = ME._queue.then(() => {
+            return waitUntil(DUE);
+        }).then(() => {
+            return action(
+                ME._SHAPER.getInfo(ME._DESTINATION, Date.now() - RECEIVED)
+            );
+        }).catch((err) => {
+            console.trace('[Proxy] shaping.ShapedStream.enqueue(): ' +
+                          vsp_helpers.toStringSafe(err));
+        }).then(() => {
+            ME._queuedBytes -= LENGTH;
+            if (ME._queuedBytes < 1) {
+                ME.setPaused(false);  // queue has been drained
+            }
+        });
+    }
+
+    /**
+     * Invokes an action after all enqueued chunks have been send.
+     * 
+     * @param {Function} action The action to invoke.
+     * 
+     * @return {Promise<void>} The promise, which is resolved after the action has been invoked.
+     */
+    public whenDone(action: () => any): Promise<void> {
+        if (!this._SHAPER) {
+            action();
+
+            return Promise.resolve();
+        }
+
+        return this._queue = this._queue.then(() => {
+            return action();
+        }).catch((err) => {
+            console.trace('[Proxy] shaping.ShapedStream.whenDone(): ' +
+                          vsp_helpers.toStringSafe(err));
+        });
+    }
+
+    private setPaused(paused: boolean) {
+        if (this._isPaused === paused) {
+            return;
+        }
+
+        this._isPaused = paused;
+
+        if (this._ON_PAUSE) {
+            try {
+                this._ON_PAUSE(paused);
+            }
+            catch (e) {
+                console.trace('[Proxy] shaping.ShapedStream.setPaused(): ' +
+                              vsp_helpers.toStringSafe(e));
+            }
+        }
+    }
+}
+
+
+/**
+ * Normalizes traffic shaping settings.
+ * 
+ * @param {vsp_contracts.TrafficShapingSettings} settings The settings.
+ * 
+ * @return {TrafficShapingOptions|false} The options or (false) if traffic should not be shaped.
+ */
+export function toTrafficShapingOptions(settings: vsp_contracts.TrafficShapingSettings): TrafficShapingOptions | false {
+    if (!settings) {
+        return false;
+    }
+
+    const TO_NUMBER = (val: any) => {
+        const NR = parseInt( vsp_helpers.toStringSafe(val).trim() );
+
+        return isNaN(NR) ? 0 : Math.max(0, NR);
+    };
+
+    let up: number;
+    let down: number;
+    if (!vsp_helpers.isNullOrUndefined(settings.bytesPerSecond) && 'object' === typeof settings.bytesPerSecond) {
+        up = TO_NUMBER(settings.bytesPerSecond.up);
+        down = TO_NUMBER(settings.bytesPerSecond.down);
+    }
+    else {
+        up = down = TO_NUMBER(settings.bytesPerSecond);
+    }
+
+    let scope = vsp_helpers.normalizeString(settings.scope);
+    if ('' === scope) {
+        scope = 'connection';
+    }
+    if ('connection' !== scope && 'proxy' !== scope) {
+        throw new Error(`Traffic shaping scope '${scope}' is not supported!`);
+    }
+
+    const OPTS: TrafficShapingOptions = {
+        bytesPerSecond: {
+            [vsp_contracts.ProxyDestination.ProxyToTarget]: up,
+            [vsp_contracts.ProxyDestination.TargetToProxy]: down,
+        },
+        delay: TO_NUMBER(settings.delay),
+        jitter: TO_NUMBER(settings.jitter),
+        scope: scope,
+    };
+
+    if (up < 1 && down < 1 && OPTS.delay < 1 && OPTS.jitter < 1) {
+        return false;  // nothing to shape
+    }
+
+    return OPTS;
+}
+
+function waitUntil(time: number) {
+    return new Promise<void>((resolve) => {
+        const WAIT = time - Date.now();
+        if (WAIT > 0) {
+            setTimeout(() => {
+                resolve();
+            }, WAIT);
+        }
+        else {
+            resolve();
+        }
+    });
+}
@@ -0,0 +1,219 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as FS from 'fs';
+import * as Net from 'net';
+const SelfSigned = require('selfsigned');
+import * as TLS from 'tls';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+const SELF_SIGNED_CERTIFICATES: { [commonName: string]: Promise<SelfSignedCertificate> } = {};
+
+interface SelfSignedCertificate {
+    readonly cert: string;
+    readonly key: string;
+}
+
+
+/**
+ * Creates the options for a TLS connection to a target.
+ * 
+ * @param {vsp_helpers.TargetAddress} target The target.
+ * 
+ * @return {Promise<TLS.ConnectionOptions|false>} The promise with the options or (false) if TLS is not used.
+ */
+export async function createConnectionOptions(target: vsp_helpers.TargetAddress): Promise<TLS.ConnectionOptions | false> {
+    const SETTINGS = target.tls;
+    if (!SETTINGS) {
+        return false;
+    }
+
+    const OPTS: TLS.ConnectionOptions = {
+        host: target.host,
+        port: target.port,
+        rejectUnauthorized: vsp_helpers.toBooleanSafe(SETTINGS.rejectUnauthorized, true),
+    };
+
+    let servername = vsp_helpers.toStringSafe(SETTINGS.servername).trim();
+    if ('' === servername && !Net.isIP(target.host)) {
+        servername = target.host;
+    }
+    if ('' !== servername) {
+        OPTS.servername = servername;
+    }
+
+    if (!vsp_helpers.isEmptyString(SETTINGS.ca)) {
+        OPTS.ca = await readFile(SETTINGS.ca);
+    }
+    if (!vsp_helpers.isEmptyString(SETTINGS.cert)) {
+        OPTS.cert = await readFile(SETTINGS.cert);
+    }
+    if (!vsp_helpers.isEmptyString(SETTINGS.key)) {
+        OPTS.key = await readFile(SETTINGS.key);
+    }
+    if (!vsp_helpers.isNullOrUndefined(SETTINGS.passphrase)) {
+        OPTS.passphrase = vsp_helpers.toStringSafe(SETTINGS.passphrase);
+    }
+
+    return OPTS;
+}
+
+/**
+ * Creates the options for a TLS server from proxy settings.
+ * 
+ * @param {boolean|vsp_contracts.ProxyTlsSettings} settings The settings.
+ * 
+ * @return {Promise<TLS.TlsServerOptions|false>} The promise with the options or (false) if TLS is disabled.
+ */
+export async function createServerOptions(settings: boolean | vsp_contracts.ProxyTlsSettings): Promise<TLS.TlsServerOptions | false> {
+    if (vsp_helpers.isNullOrUndefined(settings) || false === settings) {
+        return false;
+    }
+
+    if (true === settings) {
+        settings = {};
+    }
+
+    if (vsp_helpers.isEmptyString(settings.cert) !== vsp_helpers.isEmptyString(settings.key)) {
+        // otherwise OpenSSL fails with an unclear error
+        throw new Error(`TLS settings 'cert' and 'key' have to be defined together!`);
+    }
+
+    let cert: Buffer | string;
+    let key: Buffer | string;
+    if (vsp_helpers.isEmptyString(settings.cert)) {
+        const SELF_SIGNED = await getSelfSignedCertificate(settings.commonName);
+
+        cert = SELF_SIGNED.cert;
+        key = SELF_SIGNED.key;
+    }
+    else {
+        cert = await readFile(settings.cert);
+        key = await readFile(settings.key);
+    }
+
+    const OPTS: TLS.TlsServerOptions = {
+        cert: cert,
+        key: key,
+    };
+
+    if (!vsp_helpers.isEmptyString(settings.ca)) {
+        OPTS.ca = await readFile(settings.ca);
+    }
+    if (!vsp_helpers.isNullOrUndefined(settings.passphrase)) {
+        OPTS.passphrase = vsp_helpers.toStringSafe(settings.passphrase);
+    }
+
+    return OPTS;
+}
+
+/**
+ * Returns a self-signed certificate for a common name.
+ * The certificate is generated only once per common name.
+ * 
+ * @param {string} [commonName] The custom common name.
+ * 
+ * @return {Promise<SelfSignedCertificate>} The promise with the certificate.
+ */
+function getSelfSignedCertificate(commonName?: string): Promise<SelfSignedCertificate> {
+    commonName = vsp_helpers.toStringSafe(commonName).trim();
+    if ('' === commonName) {
+        commonName = 'localhost';
+    }
+
+    let result = SELF_SIGNED_CERTIFICATES[commonName];
+    if (!result) {
+        result = SELF_SIGNED_CERTIFICATES[commonName] = new Promise<SelfSignedCertificate>((resolve, reject) => {
+            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+            try {
+                const ATTRIBUTES = [{
+                    name: 'commonName',
+                    value: commonName,
+                }];
+
+                SelfSigned.generate(ATTRIBUTES, {
+                    algorithm: 'sha256',
+                    days: 365,
+                    extensions: [{
+                        name: 'basicConstraints',
+                        cA: true,
+                    }, {
+                        name: 'keyUsage',
+                        digitalSignature: true,
+                        keyCertSign: true,
+                        keyEncipherment: true,
+                    }, {
+                        name: 'subjectAltName',
+                        altNames: [{
+                            type: 2,  // DNS
+                            value: commonName,
+                        }, {
+                            type: 7,  // IP
+                            ip: '127.0.0.1',
+                        }],
+                    }],
+                    keySize: 2048,
+                }, (err: any, pems: any) => {
+                    if (err) {
+                        COMPLETED(err);
+                    }
+                    else {
+                        COMPLETED(null, {
+                            cert: pems.cert,
+                            key: pems.private,
+                        });
+                    }
+                });
+            }
+            catch (e) {
+                COMPLETED(e);
+            }
+        });
+
+        // do not cache failed generations
+        result.catch(() => {
+            delete SELF_SIGNED_CERTIFICATES[commonName];
+        });
+    }
+
+    return result;
+}
+
+function readFile(file: string) {
+    file = vsp_helpers.toFullPath(file);
+
+    return new Promise<Buffer>((resolve, reject) => {
+        FS.readFile(file, (err, data) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(data);
+            }
+        });
+    });
+}
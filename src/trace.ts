@@ -0,0 +1,1076 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Enumerable from 'node-enumerable';
+import * as Events from 'events';
+import * as FS from 'fs';
+const Hexy = require('hexy');
+import * as Moment from 'moment';
+import * as OS from 'os';
+import * as Path from 'path';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+import * as vsp_http from './http';
+import * as vsp_pcap from './pcap';
+
+
+/**
+ * Information about the proxy of a built-in trace writer.
+ */
+export interface BuiltInTraceWriterContext {
+    /**
+     * The name of the proxy.
+     */
+    readonly name: string;
+    /**
+     * The TCP / UDP port of the proxy.
+     */
+    readonly port: number;
+    /**
+     * The protocol, like 'tcp' or 'udp'.
+     */
+    readonly protocol: string;
+}
+
+/**
+ * Options of a built-in trace writer.
+ */
+export interface BuiltInTraceWriterOptions {
+    /**
+     * The path of the output file, relative to the '.vscode' subfolder.
+     */
+    readonly file?: string;
+}
+
+/**
+ * A trace, which has been read from a file.
+ */
+export interface TraceFile {
+    /**
+     * The protocol, like 'tcp' or 'udp'.
+     */
+    readonly protocol: string;
+    /**
+     * The trace.
+     */
+    readonly trace: vsp_contracts.TraceEntry[];
+}
+
+/**
+ * Options for writing a trace to files.
+ */
+export interface TraceFileOptions {
+    /**
+     * The full path of the file, which is used as template for the names of the files.
+     */
+    readonly file: string;
+    /**
+     * The maximum size of a file in bytes, before a new one is started (0 = unlimited).
+     */
+    readonly maxSize: number;
+    /**
+     * The time in milliseconds, after a new file is started (0 = never).
+     */
+    readonly rotateAfter: number;
+}
+
+/**
+ * Limits of a trace.
+ */
+export interface TraceLimits {
+    /**
+     * The maximum number of bytes of all chunks (0 = unlimited).
+     */
+    readonly maxBytes: number;
+    /**
+     * The maximum number of entries (0 = unlimited).
+     */
+    readonly maxEntries: number;
+    /**
+     * The policy, if a limit has been reached.
+     */
+    readonly policy: TraceLimitPolicy;
+}
+
+/**
+ * Options for converting a trace to text.
+ */
+export interface TraceTextOptions {
+    /**
+     * The format, like 'ascii', 'har', 'http', 'json' or 'text'.
+     */
+    readonly format: string;
+    /**
+     * The width for binary data in hex view.
+     */
+    readonly hexWidth: number;
+    /**
+     * The name of the proxy.
+     */
+    readonly name: string;
+    /**
+     * The protocol, like 'tcp' or 'udp', which is stored in the 'json' format.
+     */
+    readonly protocol?: string;
+    /**
+     * The version of the extension.
+     */
+    readonly version?: string;
+}
+
+/**
+ * Policies, if a limit of a trace has been reached.
+ */
+export enum TraceLimitPolicy {
+    /**
+     * Remove the oldest entries.
+     */
+    DropOldest = 'dropoldest',
+    /**
+     * Move the oldest entries to a file.
+     */
+    Spill = 'spill',
+    /**
+     * Stop tracing.
+     */
+    Stop = 'stop',
+}
+
+const BUILT_IN_TRACE_WRITERS = [ 'har', 'ndjson', 'pcapng' ];
+
+
+/**
+ * A trace, which is limited by the number of its entries and the size of their chunks.
+ * 
+ * Emits 'limitReached' once, if a limit has been reached and the policy is 'stop',
+ * and 'spill' with the path of the file, before the first entry is spilled.
+ */
+export class TraceBuffer extends Events.EventEmitter implements vscode.Disposable {
+    private _bytes = 0;
+    private _dropped = 0;
+    private readonly _ENTRIES: vsp_contracts.TraceEntry[] = [];
+    private _isLimitReached = false;
+    private readonly _LIMITS: TraceLimits;
+    private readonly _PROTOCOL: string;
+    private readonly _SPILL_FILE: string;
+    private _spillStream: FS.WriteStream;
+    private _spilled = 0;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {TraceLimits} limits The limits.
+     * @param {string} spillFile The path of the file, where entries are spilled to.
+     * @param {string} [protocol] The protocol, like 'tcp' or 'udp', which is stored with the spilled entries.
+     */
+    constructor(limits: TraceLimits, spillFile: string, protocol?: string) {
+        super();
+
+        this._LIMITS = limits;
+        this._SPILL_FILE = spillFile;
+        this._PROTOCOL = protocol;
+    }
+
+    /**
+     * Gets the number of bytes of all chunks in memory.
+     */
+    public get bytes(): number {
+        return this._bytes;
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        const SPILL_STREAM = this._spillStream;
+        if (SPILL_STREAM) {
+            SPILL_STREAM.end();
+        }
+
+        this._spillStream = null;
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * Gets the number of entries, which have been dropped.
+     */
+    public get dropped(): number {
+        return this._dropped;
+    }
+
+    /**
+     * Gets the list of entries in memory.
+     */
+    public get entries(): vsp_contracts.TraceEntry[] {
+        return this._ENTRIES;
+    }
+
+    private isOverLimit(): boolean {
+        const LIMITS = this._LIMITS;
+
+        return (LIMITS.maxEntries > 0 && this._ENTRIES.length > LIMITS.maxEntries) ||
+               (LIMITS.maxBytes > 0 && this._bytes > LIMITS.maxBytes);
+    }
+
+    /**
+     * Gets the limits.
+     */
+    public get limits(): TraceLimits {
+        return this._LIMITS;
+    }
+
+    /**
+     * Appends an entry.
+     * 
+     * @param {vsp_contracts.TraceEntry} entry The entry to append.
+     * 
+     * @return {boolean} Entry has been appended or not.
+     */
+    public push(entry: vsp_contracts.TraceEntry): boolean {
+        if (this._isLimitReached) {
+            this._dropped++;
+            return false;
+        }
+
+        this._ENTRIES.push(entry);
+        this._bytes += getTraceEntrySize(entry);
+
+        if (!this.isOverLimit()) {
+            return true;
+        }
+
+        if (TraceLimitPolicy.Stop === this._LIMITS.policy) {
+            // remove new entry
+            this._ENTRIES.pop();
+            this._bytes -= getTraceEntrySize(entry);
+            this._dropped++;
+
+            this._isLimitReached = true;
+            this.emit('limitReached');
+
+            return false;
+        }
+
+        // remove oldest entries, but keep the new one
+        while (this._ENTRIES.length > 1 && this.isOverLimit()) {
+            const OLDEST = this._ENTRIES.shift();
+            this._bytes -= getTraceEntrySize(OLDEST);
+
+            if (TraceLimitPolicy.Spill === this._LIMITS.policy) {
+                this.spill(OLDEST);
+            }
+            else {
+                this._dropped++;
+            }
+        }
+
+        return true;
+    }
+
+    private spill(entry: vsp_contracts.TraceEntry) {
+        if (!this._spillStream) {
+            this.emit('spill', this._SPILL_FILE);
+
+            this._spillStream = FS.createWriteStream(this._SPILL_FILE, {
+                flags: 'a',
+            });
+            this._spillStream.on('error', (err) => {
+                console.trace('[Proxy] trace.TraceBuffer.spill(): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+        }
+
+        this._spillStream.write(
+            JSON.stringify(toSerializableTraceEntry(entry, this._PROTOCOL)) + "\n"
+        );
+
+        this._spilled++;
+    }
+
+    /**
+     * Gets the path of the file, where entries are spilled to.
+     */
+    public get spillFile(): string {
+        return this._SPILL_FILE;
+    }
+
+    /**
+     * Gets the number of entries, which have been spilled to a file.
+     */
+    public get spilled(): number {
+        return this._spilled;
+    }
+}
+
+
+/**
+ * Writes trace entries to files in NDJSON format, while they are captured.
+ * 
+ * Each line contains an entry as JSON object, with the chunks as Base64 strings.
+ * 
+ * Emits 'opened' with the path of a new file.
+ */
+export class TraceFileWriter extends Events.EventEmitter implements vscode.Disposable {
+    private _currentFile: string;
+    private _currentSize = 0;
+    private readonly _FILES: string[] = [];
+    private _openedAt: number;
+    private readonly _OPTIONS: TraceFileOptions;
+    private readonly _PROTOCOL: string;
+    private _stream: FS.WriteStream;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {TraceFileOptions} options The options.
+     * @param {string} [protocol] The protocol, like 'tcp' or 'udp', which is stored with the entries.
+     */
+    constructor(options: TraceFileOptions, protocol?: string) {
+        super();
+
+        this._OPTIONS = options;
+        this._PROTOCOL = protocol;
+    }
+
+    private close() {
+        const STREAM = this._stream;
+        if (STREAM) {
+            STREAM.end();
+        }
+
+        this._stream = null;
+        this._currentFile = null;
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        this.close();
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * Gets the list of files, which have been written.
+     */
+    public get files(): string[] {
+        return this._FILES;
+    }
+
+    private open() {
+        const TEMPLATE = this._OPTIONS.file;
+
+        const DIR = Path.dirname(TEMPLATE);
+        const EXT = Path.extname(TEMPLATE);
+
+        let file = Path.join(
+            DIR,
+            `${Path.basename(TEMPLATE, EXT)}-${Moment.utc().format('YYYYMMDD-HHmmss-SSS')}${EXT}`
+        );
+        if (file === this._currentFile) {
+            file = Path.join(
+                DIR,
+                `${Path.basename(file, EXT)}-${this._FILES.length}${EXT}`
+            );
+        }
+
+        this.close();
+
+        createDirectory(DIR);
+
+        this._stream = FS.createWriteStream(file, {
+            flags: 'a',
+        });
+        this._stream.on('error', (err) => {
+            console.trace('[Proxy] trace.TraceFileWriter.open(): ' +
+                          vsp_helpers.toStringSafe(err));
+        });
+
+        this._currentFile = file;
+        this._currentSize = 0;
+        this._openedAt = Date.now();
+
+        this._FILES.push(file);
+
+        this.emit('opened', file);
+    }
+
+    private shouldRotate(): boolean {
+        const OPTIONS = this._OPTIONS;
+
+        return (OPTIONS.maxSize > 0 && this._currentSize >= OPTIONS.maxSize) ||
+               (OPTIONS.rotateAfter > 0 && (Date.now() - this._openedAt) >= OPTIONS.rotateAfter);
+    }
+
+    /**
+     * Appends an entry to the current file.
+     * 
+     * @param {vsp_contracts.TraceEntry} entry The entry to write.
+     */
+    public write(entry: vsp_contracts.TraceEntry) {
+        if (!this._stream || this.shouldRotate()) {
+            this.open();
+        }
+
+        const LINE = Buffer.from(
+            JSON.stringify(toSerializableTraceEntry(entry, this._PROTOCOL)) + "\n", 'utf8'
+        );
+
+        this._stream.write(LINE);
+        this._currentSize += LINE.length;
+    }
+}
+
+
+function createDirectory(dir: string) {
+    if (FS.existsSync(dir)) {
+        return;
+    }
+
+    createDirectory(Path.dirname(dir));
+
+    FS.mkdirSync(dir);
+}
+
+/**
+ * Creates the quick pick items for the entries of a trace, starting with the latest one.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} trace The trace.
+ * @param {Function} open The function, that opens one entry (index) or all (undefined),
+ *                        and shows the differences between the original and the sent chunks (diff) or not.
+ * 
+ * @return {vsp_contracts.ActionQuickPickItem[]} The items.
+ */
+export function createTraceQuickPicks(trace: vsp_contracts.TraceEntry[],
+                                      open: (index: number, diff: boolean) => any): vsp_contracts.ActionQuickPickItem[] {
+    const QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = [];
+
+    const TRACE = vsp_helpers.asArray(trace).map((te, i) => {
+        return {
+            entry: te,
+            index: i,
+        };
+    });
+
+    TRACE.sort((x, y) => {
+        return vsp_helpers.compareValuesBy(y, x,
+                                           i => i.index);
+    }).forEach(x => {
+        let traceDescription: string;
+
+        let icon: string;
+        switch (x.entry.destination) {
+            case vsp_contracts.ProxyDestination.ProxyToTarget:
+                icon = 'arrow-up';
+                break;
+
+            case vsp_contracts.ProxyDestination.TargetToProxy:
+                icon = 'arrow-down';
+                break;
+        }
+
+        let traceLabel = `$(${icon})  [${x.index + 1}] ${x.entry.time.format('YYYY-MM-DD HH:mm:ss.SSS')}`;
+
+        const IS_MODIFIED = isChunkModified(x.entry);
+        if (IS_MODIFIED) {
+            traceDescription = 'modified';
+        }
+
+        QUICK_PICKS.push({
+            description: traceDescription,
+            label: traceLabel,
+            action: async () => {
+                await Promise.resolve(
+                    open(x.index, IS_MODIFIED)
+                );
+            }
+        });
+    });
+
+    // show differences of all chunks
+    if (TRACE.some(x => isChunkModified(x.entry))) {
+        QUICK_PICKS.push({
+            description: '',
+            label: '$(diff)  Show changes...',
+            action: async () => {
+                await Promise.resolve(
+                    open(undefined, true)
+                );
+            }
+        });
+    }
+
+    return QUICK_PICKS;
+}
+
+/**
+ * Converts a trace entry to a string.
+ * 
+ * @param {string} name The name of the proxy.
+ * @param {vsp_contracts.TraceEntry} entry The entry to convert.
+ * @param {Function} hexDump The function, that creates the hex dump of a chunk.
+ * 
+ * @return {string} The entry as string.
+ */
+export function formatTraceEntry(name: string, entry: vsp_contracts.TraceEntry, hexDump: (chunk: Buffer) => string) {
+    let line = '';
+    const APPEND_LINE = (val: any) => {
+        line += vsp_helpers.toStringSafe(val);
+        line += "\n";
+    };
+
+    if (entry) {
+        APPEND_LINE(`[TRACE] '${name}': ${toSocketAddressPipeString(entry)}`);
+        if (entry.shaping) {
+            APPEND_LINE(`[SHAPING] delayed ${entry.shaping.delay} ms (${entry.shaping.scope})`);
+        }
+        if (entry.fault) {
+            APPEND_LINE(`[FAULT] ${entry.fault.type}: ${entry.fault.description}`);
+        }
+        if (entry.rewrites) {
+            APPEND_LINE(`[REWRITE] ${entry.rewrites.map(rw => `'${rw.name}' (${rw.count}x)`).join(', ')}`);
+        }
+        if (entry.chunk) {
+            APPEND_LINE( hexDump(entry.chunk) );    
+        }
+        if (isChunkModified(entry)) {
+            APPEND_LINE('[ORIGINAL]');
+            APPEND_LINE( hexDump(entry.originalChunk) );
+        }
+    }
+
+    return line;
+}
+
+/**
+ * Converts an object, which has been created by 'toSerializableTraceEntry()', back to a trace entry.
+ * 
+ * @param {any} obj The object.
+ * 
+ * @return {vsp_contracts.TraceEntry} The entry.
+ */
+export function fromSerializableTraceEntry(obj: any): vsp_contracts.TraceEntry {
+    if (!obj) {
+        return obj;
+    }
+
+    const TO_BUFFER = (val: any) => {
+        if (vsp_helpers.isNullOrUndefined(val)) {
+            return val;
+        }
+        if ('Buffer' === val.type && Array.isArray(val.data)) {
+            return Buffer.from(val.data);  // from 'json' output format
+        }
+
+        return Buffer.from(vsp_helpers.toStringSafe(val), 'base64');
+    };
+
+    const CHUNK = TO_BUFFER(obj.chunk);
+    const ORIGINAL_CHUNK = TO_BUFFER(obj.originalChunk);
+
+    return Object.assign({}, obj, {
+        chunk: CHUNK,
+        originalChunk: ORIGINAL_CHUNK && CHUNK && ORIGINAL_CHUNK.equals(CHUNK) ? CHUNK : ORIGINAL_CHUNK,
+        session: obj.session ? Object.assign({}, obj.session, {
+            time: Moment.utc(obj.session.time),
+        }) : obj.session,
+        time: Moment.utc(obj.time),
+    });
+}
+
+/**
+ * Returns a built-in trace writer.
+ * 
+ * @param {string} writer The name of the writer, like 'har', 'ndjson' or 'pcapng'.
+ * @param {BuiltInTraceWriterContext} context The information about the proxy.
+ * 
+ * @return {vsp_contracts.TraceWriterModule|false} The writer or (false) if there is no built-in writer with that name.
+ */
+export function getBuiltInTraceWriter(writer: string, context: BuiltInTraceWriterContext): vsp_contracts.TraceWriterModule | false {
+    switch (vsp_helpers.normalizeString(writer)) {
+        case 'har':
+            return {
+                writeTrace: (args) => {
+                    return writeBuiltInTraceFile(args, context, 'har', (trace) => {
+                        const HAR = vsp_http.toHar(vsp_http.parseHttpTrace(trace), {
+                            comment: context.name,
+                            version: args.packageFile ? args.packageFile.version : undefined,
+                        });
+
+                        return Buffer.from(JSON.stringify(HAR, null, 2), 'utf8');
+                    });
+                },
+            };
+
+        case 'ndjson':
+            return {
+                writeTrace: (args) => {
+                    return writeBuiltInTraceFile(args, context, 'ndjson', (trace) => {
+                        return Buffer.from(trace.map(te => {
+                            return JSON.stringify(toSerializableTraceEntry(te, context.protocol)) + "\n";
+                        }).join(''), 'utf8');
+                    });
+                },
+            };
+
+        case 'pcapng':
+            return {
+                writeTrace: (args) => {
+                    return writeBuiltInTraceFile(args, context, 'pcapng', (trace) => {
+                        return vsp_pcap.toPcapNg(trace, {
+                            description: context.name,
+                            protocol: context.protocol,
+                        });
+                    });
+                },
+            };
+    }
+
+    return false;
+}
+
+/**
+ * Returns the path of a new file in the temp folder, where trace entries of a proxy can be spilled to.
+ * 
+ * @param {number} port The port of the proxy.
+ * 
+ * @return {string} The path of the file.
+ */
+export function getSpillFile(port: number): string {
+    return Path.join(
+        OS.tmpdir(),
+        `vscode-proxy-${port}-${Moment.utc().format('YYYYMMDD-HHmmss-SSS')}.ndjson`,
+    );
+}
+
+/**
+ * Returns the number of bytes, which are used by the chunks of a trace entry.
+ * 
+ * @param {vsp_contracts.TraceEntry} entry The entry.
+ * 
+ * @return {number} The number of bytes.
+ */
+export function getTraceEntrySize(entry: vsp_contracts.TraceEntry): number {
+    let size = 0;
+
+    if (entry) {
+        if (entry.chunk) {
+            size += entry.chunk.length;
+        }
+        if (entry.originalChunk && entry.originalChunk !== entry.chunk) {
+            size += entry.originalChunk.length;
+        }
+    }
+
+    return size;
+}
+
+/**
+ * Returns the key of the group of a trace entry, which is build from its direction,
+ * its endpoints and its session.
+ * 
+ * @param {vsp_contracts.TraceEntry} entry The entry.
+ * 
+ * @return {string} The key.
+ */
+export function getTraceGroup(entry: vsp_contracts.TraceEntry) {
+    if (!entry) {
+        return;
+    }
+
+    const DESTINATION = entry.destination;
+    const SOURCE = `[${entry.sourceIndex}] ${entry.source.addr}:${entry.source.port}`;
+    const TARGET = `[${entry.targetIndex}] ${entry.target.addr}:${entry.target.port}`;
+    const SESSION = `${entry.session.id}\t${entry.session.time.toDate().getTime()}`;
+
+    return `${DESTINATION}\n${SOURCE}\n${TARGET}\n${SESSION}`;
+}
+
+/**
+ * Checks if a 'traceWriter' setting is the name of a built-in writer instead of a script.
+ * 
+ * @param {string} writer The value of the setting.
+ * 
+ * @return {boolean} Is built-in writer or not.
+ */
+export function isBuiltInTraceWriter(writer: string): boolean {
+    return BUILT_IN_TRACE_WRITERS.indexOf(vsp_helpers.normalizeString(writer)) > -1;
+}
+
+/**
+ * Checks if the chunk of a trace entry has been changed or dropped.
+ * 
+ * @param {vsp_contracts.TraceEntry} entry The entry.
+ * 
+ * @return {boolean} Has been changed or not.
+ */
+export function isChunkModified(entry: vsp_contracts.TraceEntry) {
+    if (!entry.originalChunk) {
+        return false;
+    }
+
+    return !entry.chunk ||
+           !entry.originalChunk.equals(entry.chunk);
+}
+
+/**
+ * Reads a trace file, which has been written by a 'TraceFileWriter', has been spilled,
+ * has been saved from the 'json' output format or is a PCAP / PCAPNG file.
+ * 
+ * @param {string} file The path of the file.
+ * 
+ * @return {TraceFile} The trace.
+ */
+export function readTraceFile(file: string): TraceFile {
+    const DATA = FS.readFileSync(file);
+
+    if (vsp_pcap.isPcap(DATA)) {
+        return vsp_pcap.fromPcap(DATA);
+    }
+
+    const TEXT = DATA.toString('utf8').trim();
+
+    let entries: any[];
+    if (TEXT.startsWith('[')) {
+        entries = JSON.parse(TEXT);
+    }
+    else {
+        // NDJSON
+        entries = TEXT.split("\n").map(l => {
+            return l.trim();
+        }).filter(l => '' !== l).map(l => {
+            return JSON.parse(l);
+        });
+    }
+
+    // older files do not contain the protocol
+    const WITH_PROTOCOL = vsp_helpers.asArray(entries).find(e => {
+        return e && !vsp_helpers.isEmptyString(e.protocol);
+    });
+
+    return {
+        protocol: WITH_PROTOCOL ? vsp_helpers.normalizeString(WITH_PROTOCOL.protocol) : 'tcp',
+        trace: vsp_helpers.asArray(entries).map(e => {
+            return fromSerializableTraceEntry(e);
+        }),
+    };
+}
+
+/**
+ * Opens a trace in a new tab.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} trace The entries to show.
+ * @param {vsp_contracts.TraceEntry[]} allTrace All entries of the trace.
+ * @param {TraceTextOptions} options The options.
+ * @param {boolean} [diff] Show the differences between the original and the sent chunks or not. Default: (false)
+ */
+export async function showTrace(trace: vsp_contracts.TraceEntry[], allTrace: vsp_contracts.TraceEntry[],
+                                options: TraceTextOptions, diff = false) {
+    if (diff) {
+        const ORIGINAL = toTraceText(trace, allTrace, options, te => te.originalChunk || te.chunk);
+        const SENT = toTraceText(trace, allTrace, options, te => te.chunk);
+
+        const ORIGINAL_DOC = await vscode.workspace.openTextDocument({
+            language: ORIGINAL.lang,
+            content: ORIGINAL.text,
+        });
+        const SENT_DOC = await vscode.workspace.openTextDocument({
+            language: SENT.lang,
+            content: SENT.text,
+        });
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            ORIGINAL_DOC.uri, SENT_DOC.uri,
+            `${options.name}: Original <-> Sent`,
+        );
+    }
+    else {
+        const EDITOR_TEXT = toTraceText(trace, allTrace, options);
+
+        await vscode.window.showTextDocument(
+            await vscode.workspace.openTextDocument({
+                language: EDITOR_TEXT.lang,
+                content: EDITOR_TEXT.text,
+            }),
+        );
+    }
+}
+
+/**
+ * Converts a trace entry to an object, which can be serialized as JSON,
+ * with Base64 strings of the chunks.
+ * 
+ * @param {vsp_contracts.TraceEntry} entry The entry.
+ * @param {string} [protocol] The protocol of the proxy, like 'tcp' or 'udp'.
+ * 
+ * @return {any} The object.
+ */
+export function toSerializableTraceEntry(entry: vsp_contracts.TraceEntry, protocol?: string): any {
+    if (!entry) {
+        return entry;
+    }
+
+    return Object.assign({}, entry, {
+        chunk: entry.chunk ? entry.chunk.toString('base64') : null,
+        originalChunk: entry.originalChunk ? entry.originalChunk.toString('base64') : undefined,
+        protocol: protocol,
+    });
+}
+
+/**
+ * Returns a string with the source and target of a trace entry, like '[0] 'a:1' => [0] 'b:2''.
+ * 
+ * @param {vsp_contracts.TraceEntry} entry The entry.
+ * 
+ * @return {string} The string.
+ */
+export function toSocketAddressPipeString(entry: vsp_contracts.TraceEntry) {
+    let separator: string;
+    let left: string;
+    let right: string;
+    switch (entry.destination) {
+        case vsp_contracts.ProxyDestination.ProxyToTarget:
+            separator = '=>';
+            left = `[${entry.sourceIndex}] '${entry.source.addr}:${entry.source.port}'`;
+            right = `[${entry.targetIndex}] '${entry.target.addr}:${entry.target.port}'`;
+            break;
+
+        case vsp_contracts.ProxyDestination.TargetToProxy:
+            separator = '<=';
+            right = `[${entry.sourceIndex}] '${entry.source.addr}:${entry.source.port}'`;
+            left = `[${entry.targetIndex}] '${entry.target.addr}:${entry.target.port}'`;
+            break;
+    }
+
+    return `${left} ${separator} ${right}`;
+}
+
+/**
+ * Converts the 'traceFile' setting of a proxy entry to options.
+ * 
+ * @param {string|vsp_contracts.TraceFileSettings} settings The settings.
+ * 
+ * @return {TraceFileOptions|false} The options or (false) if the trace should not be written to files.
+ */
+export function toTraceFileOptions(settings: string | vsp_contracts.TraceFileSettings): TraceFileOptions | false {
+    let file: string;
+    let maxSize: number;
+    let rotateAfter: number;
+    if (settings && 'object' === typeof settings) {
+        file = settings.path;
+        maxSize = parseInt( vsp_helpers.toStringSafe(settings.maxSize).trim() );
+        rotateAfter = parseInt( vsp_helpers.toStringSafe(settings.rotateAfter).trim() );
+    }
+    else {
+        file = vsp_helpers.toStringSafe(settings);
+    }
+
+    if (vsp_helpers.isEmptyString(file)) {
+        return false;
+    }
+
+    return {
+        file: vsp_helpers.toFullPath(file),
+        maxSize: isNaN(maxSize) || maxSize < 0 ? 0 : maxSize,
+        rotateAfter: isNaN(rotateAfter) || rotateAfter < 0 ? 0 : rotateAfter,
+    };
+}
+
+/**
+ * Returns the limits of a trace for a proxy entry.
+ * 
+ * @param {vsp_contracts.ProxyEntry} entry The proxy entry.
+ * @param {vsp_contracts.Configuration} config The configuration with the default values.
+ * 
+ * @return {TraceLimits} The limits.
+ */
+export function toTraceLimits(entry: vsp_contracts.ProxyEntry, config: vsp_contracts.Configuration): TraceLimits {
+    const TO_LIMIT = (value: any, defaultValue: any) => {
+        if (vsp_helpers.isNullOrUndefined(value)) {
+            value = defaultValue;
+        }
+
+        const LIMIT = parseInt( vsp_helpers.toStringSafe(value).trim() );
+
+        return isNaN(LIMIT) || LIMIT < 0 ? 0 : LIMIT;
+    };
+
+    let policy = vsp_helpers.normalizeString(entry.traceLimitPolicy);
+    if ('' === policy) {
+        policy = vsp_helpers.normalizeString(config.traceLimitPolicy);
+    }
+
+    switch (policy) {
+        case TraceLimitPolicy.Spill:
+        case TraceLimitPolicy.Stop:
+            break;
+
+        default:
+            policy = TraceLimitPolicy.DropOldest;
+            break;
+    }
+
+    return {
+        maxBytes: TO_LIMIT(entry.maxTraceBytes, config.maxTraceBytes),
+        maxEntries: TO_LIMIT(entry.maxTraceEntries, config.maxTraceEntries),
+        policy: <TraceLimitPolicy>policy,
+    };
+}
+
+/**
+ * Converts a trace to text.
+ * 
+ * @param {vsp_contracts.TraceEntry[]} trace The entries to convert.
+ * @param {vsp_contracts.TraceEntry[]} allTrace All entries of the trace.
+ * @param {TraceTextOptions} options The options.
+ * @param {Function} [getChunk] The custom function, that returns the chunk of an entry. Is used for diff views only.
+ * 
+ * @return {Object} The text and the language of the editor.
+ */
+export function toTraceText(trace: vsp_contracts.TraceEntry[], allTrace: vsp_contracts.TraceEntry[],
+                            options: TraceTextOptions, getChunk?: (te: vsp_contracts.TraceEntry) => Buffer) {
+    const EOL = "\n";
+
+    const GET_CHUNK = getChunk || ((te: vsp_contracts.TraceEntry) => te.chunk);
+
+    const GET_GROUPED_TASKS = () => {
+        return Enumerable.from(allTrace).groupBy(x => {
+            return getTraceGroup(x);
+        });
+    };
+
+    let editorText: string;
+    let lang = 'plaintext';
+    switch (options.format) {
+        case 'ascii':
+            editorText = trace.map(te => {
+                const CHUNK = GET_CHUNK(te);
+                if (CHUNK) {
+                    return CHUNK.toString('ascii');
+                }
+
+                return '';
+            }).join(EOL + EOL);
+            break;
+
+        case 'har':
+            {
+                // all entries of the sessions
+                const SESSIONS = trace.map(te => te.session ? te.session.id : undefined);
+
+                const HAR = vsp_http.toHar(
+                    vsp_http.parseHttpTrace(allTrace.filter(te => {
+                        return SESSIONS.indexOf(te.session ? te.session.id : undefined) > -1;
+                    }), GET_CHUNK),
+                    {
+                        comment: options.name,
+                        version: options.version,
+                    },
+                );
+
+                editorText = JSON.stringify(HAR, null, 2);
+                lang = 'json';
+            }
+            break;
+
+        case 'http':
+            {
+                let editorContent = Buffer.alloc(0);
+
+                GET_GROUPED_TASKS().where(grp => {
+                    return trace.map(t => getTraceGroup(t))
+                                .indexOf(grp.key) > -1;
+                }).forEach(grp => {
+                    grp.each(x => {
+                        const CHUNK = GET_CHUNK(x);
+                        if (CHUNK) {
+                            editorContent = Buffer.concat([
+                                editorContent,
+                                CHUNK,
+                            ]);
+                        }
+                    });
+                });
+
+                editorText = editorContent.toString('ascii');
+            }
+            break;
+
+        case 'json':
+            editorText = JSON.stringify(trace.map(te => {
+                return Object.assign({}, te, {
+                    chunk: GET_CHUNK(te),
+                    protocol: options.protocol,
+                });
+            }), null, 2);
+            lang = 'json';
+            break;
+
+        default:
+            editorText = trace.map(te => {
+                if (!getChunk) {
+                    return formatTraceEntry(options.name, te, (chunk) => {
+                        return Hexy.hexy(chunk, { width: options.hexWidth });
+                    }).split("\n").join(EOL);
+                }
+
+                let str = `[TRACE] '${options.name}': ${toSocketAddressPipeString(te)}\n`;
+
+                const CHUNK = GET_CHUNK(te);
+                if (CHUNK) {
+                    str += Hexy.hexy(CHUNK, { width: options.hexWidth });
+                }
+
+                return str.split("\n").join(EOL);
+            }).join(EOL);
+            break;
+    }
+
+    return {
+        lang: lang,
+        text: editorText,
+    };
+}
+
+async function writeBuiltInTraceFile(args: vsp_contracts.TraceWriterModuleExecutorArguments, context: BuiltInTraceWriterContext,
+                                     ext: string, convert: (trace: vsp_contracts.TraceEntry[]) => Buffer) {
+    const OPTIONS: BuiltInTraceWriterOptions = args.options || {};
+
+    let file = vsp_helpers.toStringSafe(OPTIONS.file);
+    if (vsp_helpers.isEmptyString(file)) {
+        file = `./traces/proxy-${context.port}-${Moment.utc().format('YYYYMMDD-HHmmss-SSS')}.${ext}`;
+    }
+    file = vsp_helpers.toFullPath(file);
+
+    createDirectory(Path.dirname(file));
+
+    await new Promise<void>((resolve, reject) => {
+        FS.writeFile(file, convert(vsp_helpers.asArray(args.trace)),
+                     vsp_helpers.createSimpleCompletedAction(resolve, reject));
+    });
+
+    args.outputChannel.appendLine(
+        `[Proxy] '${context.name}': Trace has been written to '${file}'.`
+    );
+}
@@ -0,0 +1,370 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Path from 'path';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_controller from './controller';
+import * as vsp_helpers from './helpers';
+import * as vsp_replay from './replay';
+import * as vsp_trace from './trace';
+
+
+/**
+ * The original trace of a replay.
+ */
+export interface ReplaySource {
+    /**
+     * The result of the replay.
+     */
+    readonly result: vsp_replay.ReplayResult;
+    /**
+     * The original trace.
+     */
+    readonly trace: vsp_contracts.TraceEntry[];
+}
+
+
+/**
+ * A read-only trace, which has been loaded from a file or recorded by a replay.
+ */
+export class TraceViewer {
+    private readonly _CONTROLLER: vsp_controller.Controller;
+    private readonly _FILE: string;
+    private readonly _NAME: string;
+    private readonly _REPLAY_SOURCE: ReplaySource;
+    private _session: string;
+    private readonly _TRACE_FILE: vsp_trace.TraceFile;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vsp_controller.Controller} controller The underlying controller.
+     * @param {string} name The name.
+     * @param {vsp_trace.TraceFile} traceFile The trace.
+     * @param {string} [file] The full path of the file, from where the trace has been loaded.
+     * @param {ReplaySource} [replaySource] The original trace, if the trace has been recorded by a replay.
+     */
+    constructor(controller: vsp_controller.Controller, name: string, traceFile: vsp_trace.TraceFile,
+                file?: string, replaySource?: ReplaySource) {
+        this._CONTROLLER = controller;
+        this._NAME = name;
+        this._TRACE_FILE = traceFile;
+        this._FILE = file;
+        this._REPLAY_SOURCE = replaySource;
+    }
+
+    /**
+     * Compares the responses of a replay with the ones of the original trace.
+     */
+    public async compareResponses() {
+        const ME = this;
+
+        const SOURCE = ME._REPLAY_SOURCE;
+        if (!SOURCE) {
+            return;
+        }
+
+        const TEXTS = vsp_replay.compareResponses(SOURCE.trace, SOURCE.result,
+                                                  vsp_helpers.normalizeString(ME.controller.config.outputFormat),
+                                                  ME.controller.hexWidth);
+
+        const ORIGINAL_DOC = await vscode.workspace.openTextDocument({
+            language: 'plaintext',
+            content: TEXTS.original,
+        });
+        const REPLAYED_DOC = await vscode.workspace.openTextDocument({
+            language: 'plaintext',
+            content: TEXTS.replayed,
+        });
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            ORIGINAL_DOC.uri, REPLAYED_DOC.uri,
+            `${ME.name}: Original <-> Replayed`,
+        );
+    }
+
+    /**
+     * Gets the underlying controller.
+     */
+    public get controller(): vsp_controller.Controller {
+        return this._CONTROLLER;
+    }
+
+    /**
+     * Saves the trace in another format.
+     */
+    public async export() {
+        const ME = this;
+
+        const FORMATS: vsp_contracts.ActionQuickPickItem<string>[] = [{
+            description: 'HTTP archive',
+            label: 'HAR',
+            state: 'har',
+        }, {
+            description: 'Can be opened here again',
+            label: 'NDJSON',
+            state: 'ndjson',
+        }, {
+            description: 'For Wireshark e.g.',
+            label: 'PCAPNG',
+            state: 'pcapng',
+        }];
+
+        const SELECTED_FORMAT = await vscode.window.showQuickPick(FORMATS, {
+            placeHolder: 'Select the format...',
+        });
+        if (!SELECTED_FORMAT) {
+            return;
+        }
+
+        const EXT = SELECTED_FORMAT.state;
+
+        const DEFAULT_FILE = ME.file ?
+            Path.join(Path.dirname(ME.file), Path.basename(ME.file, Path.extname(ME.file))) :
+            vsp_helpers.toFullPath(Path.join('./traces', ME.name));
+
+        const TARGET = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(`${DEFAULT_FILE}.${EXT}`),
+            filters: {
+                [ SELECTED_FORMAT.label ]: [ EXT ],
+            },
+            saveLabel: 'Export trace',
+        });
+        if (!TARGET) {
+            return;
+        }
+
+        const WRITER = vsp_trace.getBuiltInTraceWriter(EXT, {
+            name: ME.name,
+            port: 0,
+            protocol: ME.protocol,
+        });
+        if (WRITER) {
+            const BUILT_IN_OPTIONS: vsp_trace.BuiltInTraceWriterOptions = {
+                file: TARGET.fsPath,
+            };
+
+            await Promise.resolve(
+                WRITER.writeTrace({
+                    config: vsp_helpers.cloneObject(ME.controller.config),
+                    context: ME.controller.context,
+                    globals: vsp_helpers.cloneObject(
+                        ME.controller.config.globals
+                    ),
+                    globalState: undefined,
+                    options: BUILT_IN_OPTIONS,
+                    outputChannel: ME.controller.outputChannel,
+                    packageFile: vsp_helpers.cloneObject(ME.controller.packageFile),
+                    state: undefined,
+                    trace: ME.trace,
+                }),
+            );
+        }
+    }
+
+    /**
+     * Gets the full path of the file, from where the trace has been loaded.
+     */
+    public get file(): string {
+        return this._FILE;
+    }
+
+    /**
+     * Gets the name.
+     */
+    public get name(): string {
+        return this._NAME;
+    }
+
+    /**
+     * Opens all trace items or a specific one in a new tab.
+     * 
+     * @param {number} [index] The zero-based index of the specific one.
+     * @param {boolean} [diff] Show the differences between the original and the sent chunks or not. Default: (false)
+     */
+    public async open(index?: number, diff = false) {
+        const ME = this;
+
+        const ALL_TRACE = ME.trace;
+
+        let trace: vsp_contracts.TraceEntry[];
+        if (isNaN(index)) {
+            trace = ALL_TRACE;
+        }
+        else {
+            trace = [ ALL_TRACE[index] ];
+        }
+
+        await vsp_trace.showTrace(trace, ALL_TRACE, {
+            format: vsp_helpers.normalizeString(ME.controller.config.outputFormat),
+            hexWidth: ME.controller.hexWidth,
+            name: ME.name,
+            protocol: ME.protocol,
+            version: ME.controller.packageFile ? ME.controller.packageFile.version : undefined,
+        }, diff);
+    }
+
+    /**
+     * Gets the protocol, like 'tcp' or 'udp'.
+     */
+    public get protocol(): string {
+        return this._TRACE_FILE.protocol;
+    }
+
+    /**
+     * Selects the session, which entries are shown only.
+     */
+    public async selectSession() {
+        const ME = this;
+
+        const IDS: string[] = [];
+        const SESSIONS: { [id: string]: { count: number, first: vsp_contracts.TraceEntry } } = {};
+        ME._TRACE_FILE.trace.forEach(te => {
+            const ID = getSessionId(te);
+
+            if (SESSIONS[ID]) {
+                ++SESSIONS[ID].count;
+            }
+            else {
+                IDS.push(ID);
+                SESSIONS[ID] = {
+                    count: 1,
+                    first: te,
+                };
+            }
+        });
+
+        const QUICK_PICKS = IDS.map(id => {
+            const SESSION = SESSIONS[id];
+
+            const QP: vsp_contracts.ActionQuickPickItem<string> = {
+                description: `${SESSION.count} entries`,
+                detail: id,
+                label: `${SESSION.first.time.format('YYYY-MM-DD HH:mm:ss.SSS')}  ${vsp_trace.toSocketAddressPipeString(SESSION.first)}`,
+                state: id,
+            };
+
+            return QP;
+        });
+
+        const SELECTED_SESSION = await vscode.window.showQuickPick(QUICK_PICKS, {
+            placeHolder: 'Select the session to show...',
+        });
+        if (SELECTED_SESSION) {
+            ME._session = SELECTED_SESSION.state;
+        }
+    }
+
+    /**
+     * Shows the actions for the trace.
+     */
+    public async showActions() {
+        const ME = this;
+
+        const QUICK_PICKS: vsp_contracts.ActionQuickPickItem[] = [{
+            description: `${ME.trace.length} entries`,
+            label: '$(file-text)  Show all...',
+            action: async () => {
+                await ME.open();
+            },
+        }];
+
+        vsp_trace.createTraceQuickPicks(ME.trace, async (index, diff) => {
+            await ME.open(index, diff);
+        }).forEach(qp => {
+            QUICK_PICKS.push(qp);
+        });
+
+        if (vsp_helpers.isUndefined(ME._session)) {
+            QUICK_PICKS.push({
+                description: '',
+                label: '$(search)  Filter by session...',
+                action: async () => {
+                    await ME.selectSession();
+                    await ME.showActions();
+                },
+            });
+        }
+        else {
+            QUICK_PICKS.push({
+                description: ME._session,
+                label: '$(x)  Show all sessions...',
+                action: async () => {
+                    ME._session = undefined;
+                    await ME.showActions();
+                },
+            });
+        }
+
+        if (ME._REPLAY_SOURCE) {
+            QUICK_PICKS.push({
+                description: '',
+                label: '$(diff)  Compare responses with original...',
+                action: async () => {
+                    await ME.compareResponses();
+                },
+            });
+        }
+
+        QUICK_PICKS.push({
+            description: '',
+            label: '$(cloud-download)  Export...',
+            action: async () => {
+                await ME.export();
+            },
+        });
+
+        const SELECTED_ITEM = await vscode.window.showQuickPick(QUICK_PICKS, {
+            placeHolder: ME.name,
+        });
+        if (SELECTED_ITEM) {
+            if (SELECTED_ITEM.action) {
+                await Promise.resolve(
+                    SELECTED_ITEM.action(SELECTED_ITEM.state,
+                                         SELECTED_ITEM),
+                );
+            }
+        }
+    }
+
+    /**
+     * Gets the entries of the trace, which are shown.
+     */
+    public get trace(): vsp_contracts.TraceEntry[] {
+        const SESSION = this._session;
+        if (vsp_helpers.isUndefined(SESSION)) {
+            return this._TRACE_FILE.trace;
+        }
+
+        return this._TRACE_FILE.trace.filter(te => {
+            return getSessionId(te) === SESSION;
+        });
+    }
+}
+
+function getSessionId(entry: vsp_contracts.TraceEntry): string {
+    return vsp_helpers.toStringSafe(entry.session ? entry.session.id : '');
+}
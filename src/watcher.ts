@@ -0,0 +1,128 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+
+import * as Events from 'events';
+import * as FS from 'fs';
+import * as vscode from 'vscode';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * The default interval in milliseconds, for checking a script file for changes.
+ */
+export const DEFAULT_INTERVAL = 1000;
+
+/**
+ * Watches a script file and reloads it, after it has been changed.
+ * 
+ * Emits 'loaded' with the new module or 'error' with the error, if the script could not be loaded.
+ */
+export class ScriptWatcher<TModule = any> extends Events.EventEmitter implements vscode.Disposable {
+    private readonly _FILE: string;
+    private readonly _LISTENER: (curr: FS.Stats, prev: FS.Stats) => void;
+    private readonly _LOADER: (file: string) => TModule;
+    private readonly _VERIFIER: (file: string) => boolean | PromiseLike<boolean>;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} file The path of the script file.
+     * @param {number} [interval] The custom interval in milliseconds, for checking the file for changes.
+     * @param {Function} [loader] The custom function, that loads the script. Default: vsp_helpers.loadModule()
+     * @param {Function} [verifier] The custom function, that checks if the changed script can be loaded.
+     */
+    constructor(file: string, interval?: number, loader?: (file: string) => TModule,
+                verifier?: (file: string) => boolean | PromiseLike<boolean>) {
+        super();
+
+        this._FILE = vsp_helpers.toFullPath(file);
+        this._LOADER = loader || ((f) => vsp_helpers.loadModule<TModule>(f));
+        this._VERIFIER = verifier || (() => true);
+
+        interval = parseInt( vsp_helpers.toStringSafe(interval).trim() );
+        if (isNaN(interval) || interval < 1) {
+            interval = DEFAULT_INTERVAL;
+        }
+
+        this._LISTENER = (curr, prev) => {
+            if (curr.mtime.getTime() === prev.mtime.getTime()) {
+                return;  // not modified
+            }
+            if (curr.nlink < 1) {
+                return;  // deleted => wait until it has been recreated
+            }
+
+            this.reload().then(() => {
+            }, (err) => {
+                console.trace('[Proxy] watcher.ScriptWatcher(reload): ' +
+                              vsp_helpers.toStringSafe(err));
+            });
+        };
+
+        FS.watchFile(this._FILE, {
+            interval: interval,
+            persistent: false,
+        }, this._LISTENER);
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        FS.unwatchFile(this._FILE, this._LISTENER);
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * Gets the full path of the script file.
+     */
+    public get file(): string {
+        return this._FILE;
+    }
+
+    /**
+     * Reloads the script.
+     * 
+     * @return {Promise<boolean>} The promise that indicates if operation was successful or not.
+     */
+    public async reload(): Promise<boolean> {
+        let newModule: TModule;
+        try {
+            if (!(await this._VERIFIER(this._FILE))) {
+                throw new Error(`Script '${this._FILE}' is not trusted!`);
+            }
+
+            newModule = this._LOADER(this._FILE);
+        }
+        catch (e) {
+            this.emit('error', e);
+
+            return false;
+        }
+
+        this.emit('loaded', newModule);
+
+        return true;
+    }
+}
@@ -0,0 +1,257 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+const Hexy = require('hexy');
+import * as Moment from 'moment';
+import * as Path from 'path';
+import * as vsp_contracts from './contracts';
+import * as vsp_workers from './workers';
+
+
+// this is the entry point of a worker thread of a 'vsp_workers.WorkerPool'
+//
+// the 'vscode' module is not available here, so
+// 'helpers' and other modules, which depend on it, cannot be imported
+
+interface ChunkHandler {
+    handleChunk: vsp_contracts.ChunkHandlerModuleExecutor;
+    readonly options: any;
+    readonly script: string;
+    state: any;
+}
+
+
+/**
+ * s. 'vsp_helpers.CONTRACTS_MODULE'
+ */
+const CONTRACTS_MODULE = 'vscode-proxy';
+
+const WorkerThreads = require('worker_threads');
+
+const DATA: vsp_workers.WorkerData = WorkerThreads.workerData;
+const GLOBAL_STATE: any = {};
+const PARENT_PORT = WorkerThreads.parentPort;
+const SESSION_STATES: { [id: string]: { [script: string]: any } } = {};
+
+const CHUNK_HANDLERS: ChunkHandler[] = [];
+
+
+function handleChunk(msg: vsp_workers.ToWorkerMessage): PromiseLike<Buffer> {
+    const SESSION = {
+        id: msg.session.id,
+        time: Moment.utc(msg.session.time),
+    };
+
+    let states = SESSION_STATES[SESSION.id];
+    if (!states) {
+        states = SESSION_STATES[SESSION.id] = {};
+    }
+
+    let newChunk = toBuffer(msg.chunk);
+
+    // chunk handlers, one after another,
+    // beginning at index 'i'
+    const HANDLE_NEXT = (i: number): PromiseLike<Buffer> => {
+        for (; i < CHUNK_HANDLERS.length; i++) {
+            if (!newChunk) {
+                break;  // dropped
+            }
+
+            const CH = CHUNK_HANDLERS[i];
+            if (!CH.handleChunk) {
+                continue;
+            }
+
+            const SCRIPT_KEY = `chunkHandler[${i}]`;
+
+            const ARGS: vsp_contracts.ChunkHandlerModuleExecutorArguments = {
+                chunk: newChunk,
+                config: DATA.config,
+                context: undefined,
+                destination: msg.destination,
+                globals: DATA.globals,
+                globalState: GLOBAL_STATE,
+                options: CH.options,
+                outputChannel: <any>{
+                    append: (value: any) => writeToOutput(value),
+                    appendLine: (value: any) => writeToOutput(`${value}\n`),
+                },
+                packageFile: DATA.packageFile,
+                session: SESSION,
+                sessionState: undefined,
+                state: undefined,
+            };
+
+            // ARGS.state
+            Object.defineProperty(ARGS, 'state', {
+                get: () => CH.state,
+                set: (newValue) => {
+                    CH.state = newValue;
+                },
+            });
+
+            // ARGS.sessionState
+            Object.defineProperty(ARGS, 'sessionState', {
+                get: () => states[SCRIPT_KEY],
+                set: (newValue) => {
+                    states[SCRIPT_KEY] = newValue;
+                },
+            });
+
+            const RESULT = CH.handleChunk(ARGS);
+            if (RESULT && 'function' === typeof RESULT.then) {
+                // wait for handler
+                const NEXT_INDEX = i + 1;
+
+                return Promise.resolve(RESULT).then(() => {
+                    newChunk = ARGS.chunk;
+
+                    return HANDLE_NEXT(NEXT_INDEX);
+                });
+            }
+
+            newChunk = ARGS.chunk;
+        }
+
+        return Promise.resolve(newChunk);
+    };
+
+    return HANDLE_NEXT(0);
+}
+
+function loadChunkHandler(file: string, code: string): vsp_contracts.ChunkHandlerModuleExecutor {
+    const Module = require('module');
+
+    const NEW_MODULE = new Module(file, module);
+    NEW_MODULE.filename = file;
+    NEW_MODULE.paths = Module._nodeModulePaths(Path.dirname(file));
+
+    // resolve types of the extension
+    NEW_MODULE.require = function(id: string) {
+        if (CONTRACTS_MODULE === id) {
+            return vsp_contracts;
+        }
+
+        return Module.prototype.require.apply(this, arguments);
+    };
+
+    NEW_MODULE._compile(code, file);
+
+    const EXPORTS: vsp_contracts.ChunkHandlerModule = NEW_MODULE.exports;
+
+    return EXPORTS ? EXPORTS.handleChunk : undefined;
+}
+
+function post(msg: vsp_workers.FromWorkerMessage, transferList?: any[]) {
+    PARENT_PORT.postMessage(msg, transferList);
+}
+
+function toBuffer(data: Uint8Array): Buffer {
+    return Buffer.from(data.buffer, data.byteOffset, data.length);
+}
+
+function toErrorMessage(err: any): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+function writeToOutput(value: any) {
+    post({
+        type: 'output',
+        value: String(value),
+    });
+}
+
+
+PARENT_PORT.on('message', (msg: vsp_workers.ToWorkerMessage) => {
+    const SEND_ERROR = (err: any) => {
+        post({
+            error: toErrorMessage(err),
+            id: msg.id,
+            type: 'result',
+        });
+    };
+
+    try {
+        switch (msg.type) {
+            case 'chunk':
+                handleChunk(msg).then((handledChunk) => {
+                    const CHUNK = handledChunk ? new Uint8Array(handledChunk) : null;
+
+                    post({
+                        chunk: CHUNK,
+                        id: msg.id,
+                        type: 'result',
+                    }, CHUNK ? [ CHUNK.buffer ] : undefined);
+                }, SEND_ERROR);
+                break;
+
+            case 'endSession':
+                delete SESSION_STATES[msg.session.id];
+                break;
+
+            case 'hex':
+                post({
+                    dumps: msg.chunks.map(c => {
+                        return c ? Hexy.hexy(toBuffer(c), { width: msg.width }) : null;
+                    }),
+                    id: msg.id,
+                    type: 'result',
+                });
+                break;
+
+            case 'reload':
+                {
+                    const CH = CHUNK_HANDLERS[msg.index];
+                    if (CH) {
+                        try {
+                            CH.handleChunk = loadChunkHandler(CH.script, msg.code);
+                        }
+                        catch (e) {
+                            post({
+                                error: `Could not reload script '${CH.script}': ${toErrorMessage(e)}`,
+                                type: 'error',
+                            });
+                        }
+                    }
+                }
+                break;
+        }
+    }
+    catch (e) {
+        SEND_ERROR(e);
+    }
+});
+
+DATA.scripts.forEach(s => {
+    CHUNK_HANDLERS.push({
+        handleChunk: loadChunkHandler(s.file, s.code),
+        options: s.options,
+        script: s.file,
+        state: s.state,
+    });
+});
+
+post({
+    type: 'ready',
+});
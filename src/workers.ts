@@ -0,0 +1,586 @@
+// The MIT License (MIT)
+// 
+// vscode-proxy (https://github.com/mkloubert/vscode-proxy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as Events from 'events';
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as VM from 'vm';
+import * as vscode from 'vscode';
+import * as vsp_contracts from './contracts';
+import * as vsp_helpers from './helpers';
+
+
+/**
+ * A message from a worker thread.
+ */
+export interface FromWorkerMessage {
+    /**
+     * The handled chunk or (null) if it has been dropped.
+     */
+    readonly chunk?: Uint8Array;
+    /**
+     * The hex dumps.
+     */
+    readonly dumps?: string[];
+    /**
+     * The error message, if operation failed.
+     */
+    readonly error?: string;
+    /**
+     * The ID of the request.
+     */
+    readonly id?: number;
+    /**
+     * The type, like 'error', 'output', 'ready' or 'result'.
+     */
+    readonly type: string;
+    /**
+     * The value to write to the output channel.
+     */
+    readonly value?: string;
+}
+
+/**
+ * A message to a worker thread.
+ */
+export interface ToWorkerMessage {
+    /**
+     * The chunk to handle.
+     */
+    readonly chunk?: Uint8Array;
+    /**
+     * The chunks to dump.
+     */
+    readonly chunks?: Uint8Array[];
+    /**
+     * The new code of a script.
+     */
+    readonly code?: string;
+    /**
+     * The destination of the chunk.
+     */
+    readonly destination?: vsp_contracts.ProxyDestination;
+    /**
+     * The ID of the request.
+     */
+    readonly id?: number;
+    /**
+     * The index of the script.
+     */
+    readonly index?: number;
+    /**
+     * The session.
+     */
+    readonly session?: WorkerSession;
+    /**
+     * The type, like 'chunk', 'endSession', 'hex' or 'reload'.
+     */
+    readonly type: string;
+    /**
+     * The width of a hex dump.
+     */
+    readonly width?: number;
+}
+
+/**
+ * The data for a worker thread.
+ */
+export interface WorkerData {
+    /**
+     * The configuration.
+     */
+    readonly config: vsp_contracts.Configuration;
+    /**
+     * Global data.
+     */
+    readonly globals: any;
+    /**
+     * The package file of the extension.
+     */
+    readonly packageFile: vsp_contracts.PackageFile;
+    /**
+     * The chunk handlers.
+     */
+    readonly scripts: WorkerScript[];
+}
+
+/**
+ * Options for a pool of worker threads.
+ */
+export interface WorkerPoolOptions {
+    /**
+     * The number of worker threads.
+     */
+    readonly count: number;
+}
+
+/**
+ * A chunk handler script, which runs in a worker thread.
+ */
+export interface WorkerScript {
+    /**
+     * The (JavaScript) code.
+     */
+    readonly code: string;
+    /**
+     * The full path of the script.
+     */
+    readonly file: string;
+    /**
+     * The options for the script.
+     */
+    readonly options?: any;
+    /**
+     * The initial state value.
+     */
+    readonly state?: any;
+}
+
+/**
+ * A session, which can be send to a worker thread.
+ */
+export interface WorkerSession {
+    /**
+     * The ID.
+     */
+    readonly id: string;
+    /**
+     * The start time in ISO format.
+     */
+    readonly time: string;
+}
+
+interface PendingRequest {
+    readonly reject: (reason: any) => void;
+    readonly resolve: (value: any) => void;
+    readonly worker: number;
+}
+
+
+/**
+ * The default number of worker threads.
+ */
+export const DEFAULT_COUNT = 1;
+
+
+/**
+ * A pool of worker threads, which handle chunks and create hex dumps.
+ * 
+ * Emits 'output' with a value, which should be written to the output channel,
+ * 'error' with the error of a worker thread and 'end', after the last worker thread has stopped unexpectedly.
+ */
+export class WorkerPool extends Events.EventEmitter implements vscode.Disposable {
+    private readonly _DATA: WorkerData;
+    private _nextId = -1;
+    private _nextWorker = -1;
+    private readonly _OPTIONS: WorkerPoolOptions;
+    private _pending: { [id: number]: PendingRequest } = {};
+    private _sessions: { [id: string]: number } = {};
+    private _workers: any[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {WorkerPoolOptions} options The options.
+     * @param {WorkerData} data The data for the worker threads.
+     */
+    constructor(options: WorkerPoolOptions, data: WorkerData) {
+        super();
+
+        this._OPTIONS = options;
+        this._DATA = data;
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        const WORKERS = this._workers;
+        this._workers = [];
+
+        WORKERS.filter(w => !!w).forEach(w => {
+            try {
+                w.terminate();
+            }
+            catch (e) {
+                console.trace('[Proxy] workers.WorkerPool.dispose(): ' +
+                              vsp_helpers.toStringSafe(e));
+            }
+        });
+
+        const PENDING = this._pending;
+        this._pending = {};
+        this._sessions = {};
+
+        Object.keys(PENDING).forEach(id => {
+            PENDING[id].reject(new Error('Worker threads have been stopped!'));
+        });
+
+        this.removeAllListeners();
+    }
+
+    /**
+     * Removes the session states of a session.
+     * 
+     * @param {string} id The ID of the session.
+     */
+    public endSession(id: string) {
+        const INDEX = this._sessions[id];
+        if (vsp_helpers.isUndefined(INDEX)) {
+            return;
+        }
+
+        delete this._sessions[id];
+
+        this.post(INDEX, {
+            session: {
+                id: id,
+                time: undefined,
+            },
+            type: 'endSession',
+        });
+    }
+
+    /**
+     * Lets the chunk handlers of a worker thread handle a chunk.
+     * 
+     * All chunks of a session are handled by the same worker thread.
+     * 
+     * @param {Buffer} chunk The chunk.
+     * @param {vsp_contracts.ProxyDestination} destination The destination.
+     * @param {vsp_contracts.TraceEntry['session']} session The session.
+     * 
+     * @return {Promise<Buffer>} The promise with the handled chunk or (null) if it has been dropped.
+     */
+    public handleChunk(chunk: Buffer, destination: vsp_contracts.ProxyDestination,
+                       session: vsp_contracts.TraceEntry['session']): Promise<Buffer> {
+        const ME = this;
+
+        let index = ME._sessions[session.id];
+        if (vsp_helpers.isUndefined(index)) {
+            index = ME._sessions[session.id] = ME.selectWorker();
+        }
+
+        const CHUNK = toTransferable(chunk);
+
+        return ME.request(index, {
+            chunk: CHUNK,
+            destination: destination,
+            session: {
+                id: session.id,
+                time: session.time.toISOString(),
+            },
+            type: 'chunk',
+        }, [ CHUNK.buffer ]).then((msg) => {
+            return msg.chunk ? toBuffer(msg.chunk) : null;
+        }, (err) => {
+            if (ME.shouldRetry(index)) {
+                // the session has been moved to another worker thread
+                return ME.handleChunk(chunk, destination, session);
+            }
+
+            throw err;
+        });
+    }
+
+    /**
+     * Creates hex dumps of chunks.
+     * 
+     * @param {Buffer[]} chunks The chunks.
+     * @param {number} width The number of bytes per line.
+     * 
+     * @return {Promise<string[]>} The promise with the dumps.
+     */
+    public hexDump(chunks: Buffer[], width: number): Promise<string[]> {
+        const ME = this;
+
+        const CHUNKS = chunks.map(c => c ? toTransferable(c) : null);
+        const INDEX = ME.selectWorker();
+
+        return ME.request(INDEX, {
+            chunks: CHUNKS,
+            type: 'hex',
+            width: width,
+        }, CHUNKS.filter(c => !!c).map(c => c.buffer)).then((msg) => {
+            return msg.dumps;
+        }, (err) => {
+            if (ME.shouldRetry(INDEX)) {
+                return ME.hexDump(chunks, width);
+            }
+
+            throw err;
+        });
+    }
+
+    private post(index: number, msg: ToWorkerMessage, transferList?: any[]) {
+        const WORKER = this._workers[index];
+        if (WORKER) {
+            WORKER.postMessage(msg, transferList);
+        }
+    }
+
+    /**
+     * Reloads a chunk handler script in all worker threads.
+     * 
+     * @param {number} index The index of the script.
+     * @param {string} code The new (JavaScript) code.
+     */
+    public reload(index: number, code: string) {
+        for (let i = 0; i < this._workers.length; i++) {
+            this.post(i, {
+                code: code,
+                index: index,
+                type: 'reload',
+            });
+        }
+    }
+
+    private request(index: number, msg: ToWorkerMessage, transferList?: any[]): Promise<FromWorkerMessage> {
+        const ME = this;
+
+        return new Promise<FromWorkerMessage>((resolve, reject) => {
+            if (index < 0) {
+                reject(new Error('No worker thread is running!'));
+                return;
+            }
+
+            const WORKER = ME._workers[index];
+            if (!WORKER) {
+                reject(new Error(`Worker thread #${index} is not running!`));
+                return;
+            }
+
+            const ID = ++ME._nextId;
+
+            ME._pending[ID] = {
+                reject: reject,
+                resolve: resolve,
+                worker: index,
+            };
+
+            WORKER.postMessage(Object.assign({
+                id: ID,
+            }, msg), transferList);
+        });
+    }
+
+    private selectWorker() {
+        // skip stopped worker threads
+        for (let i = 0; i < this._workers.length; i++) {
+            this._nextWorker = (this._nextWorker + 1) % this._workers.length;
+
+            if (this._workers[this._nextWorker]) {
+                return this._nextWorker;
+            }
+        }
+
+        return -1;
+    }
+
+    private shouldRetry(index: number) {
+        // a request is sent again, if its worker thread
+        // has been stopped, while others are still running
+        return index > -1 && !this._workers[index] &&
+               this._workers.some(w => !!w);
+    }
+
+    /**
+     * Starts the worker threads and loads the scripts.
+     * 
+     * @return {Promise<void>} The promise, which is resolved after all worker threads are ready.
+     */
+    public start(): Promise<void> {
+        const ME = this;
+
+        const WorkerThreads = require('worker_threads');
+
+        return new Promise<void>((resolve, reject) => {
+            const COMPLETED = vsp_helpers.createSimpleCompletedAction(resolve, reject);
+
+            let notReady = ME._OPTIONS.count;
+
+            for (let i = 0; i < ME._OPTIONS.count; i++) {
+                const INDEX = i;
+
+                const NEW_WORKER = new WorkerThreads.Worker(Path.join(__dirname, 'worker.js'), {
+                    workerData: ME._DATA,
+                });
+
+                NEW_WORKER.on('message', (msg: FromWorkerMessage) => {
+                    switch (msg.type) {
+                        case 'error':
+                            ME.emit('error', new Error(msg.error));
+                            break;
+
+                        case 'output':
+                            ME.emit('output', msg.value);
+                            break;
+
+                        case 'ready':
+                            if (--notReady < 1) {
+                                COMPLETED(null);
+                            }
+                            break;
+
+                        case 'result':
+                            {
+                                const PENDING = ME._pending[msg.id];
+                                if (PENDING) {
+                                    delete ME._pending[msg.id];
+
+                                    if (vsp_helpers.isNullOrUndefined(msg.error)) {
+                                        PENDING.resolve(msg);
+                                    }
+                                    else {
+                                        PENDING.reject(new Error(msg.error));
+                                    }
+                                }
+                            }
+                            break;
+                    }
+                });
+                NEW_WORKER.on('error', (err: any) => {
+                    ME.stopWorker(INDEX, err);
+
+                    COMPLETED(err);
+                });
+                NEW_WORKER.on('exit', () => {
+                    ME.stopWorker(INDEX, new Error(`Worker thread #${INDEX} has exited!`));
+                });
+
+                ME._workers.push(NEW_WORKER);
+            }
+        });
+    }
+
+    private stopWorker(index: number, err: any) {
+        if (!this._workers[index]) {
+            return;
+        }
+
+        this._workers[index] = null;
+
+        // the next chunks of the sessions
+        // are handled by another worker thread
+        Object.keys(this._sessions).forEach(id => {
+            if (this._sessions[id] === index) {
+                delete this._sessions[id];
+            }
+        });
+
+        Object.keys(this._pending).forEach(id => {
+            const PENDING = this._pending[id];
+            if (PENDING.worker === index) {
+                delete this._pending[id];
+
+                PENDING.reject(err);
+            }
+        });
+
+        this.emit('error', err);
+
+        if (!this._workers.some(w => !!w)) {
+            this.emit('end');
+        }
+    }
+}
+
+
+/**
+ * Checks if worker threads are supported by the current version of Node.js.
+ * 
+ * @return {boolean} Are supported or not.
+ */
+export function isSupported(): boolean {
+    try {
+        return !!require('worker_threads').Worker;
+    }
+    catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Reads the code of a chunk handler script, which should run in a worker thread.
+ * 
+ * TypeScript files are transpiled and the syntax of the code is checked.
+ * 
+ * @param {string} file The path of the script.
+ * 
+ * @return {WorkerScript} The script.
+ */
+export function readScript(file: string): WorkerScript {
+    file = vsp_helpers.toFullPath(file);
+
+    let code: string;
+    if ('.ts' === Path.extname(file).toLowerCase()) {
+        code = vsp_helpers.transpileTypeScript(file);
+    }
+    else {
+        code = FS.readFileSync(file, 'utf8');
+    }
+
+    // throws on syntax errors
+    new VM.Script(code, {
+        filename: file,
+    });
+
+    return {
+        code: code,
+        file: file,
+    };
+}
+
+function toBuffer(data: Uint8Array): Buffer {
+    return Buffer.from(data.buffer, data.byteOffset, data.length);
+}
+
+/**
+ * Converts the 'workers' setting of a proxy entry to options.
+ * 
+ * @param {boolean|vsp_contracts.WorkerSettings} settings The settings.
+ * 
+ * @return {WorkerPoolOptions|false} The options or (false) if no worker threads should be used.
+ */
+export function toWorkerPoolOptions(settings: boolean | vsp_contracts.WorkerSettings): WorkerPoolOptions | false {
+    if (vsp_helpers.isNullOrUndefined(settings) || false === settings) {
+        return false;
+    }
+
+    let count: number;
+    if ('object' === typeof settings) {
+        count = parseInt( vsp_helpers.toStringSafe(settings.count).trim() );
+    }
+    if (isNaN(count) || count < 1) {
+        count = DEFAULT_COUNT;
+    }
+
+    return {
+        count: count,
+    };
+}
+
+function toTransferable(chunk: Buffer): Uint8Array {
+    // copy, because the memory of a
+    // buffer can be shared with others
+    return new Uint8Array(chunk);
+}